@@ -24,4 +24,8 @@ export class SetMap<T> {
   delete(id: symbol) {
     return this.map.delete(id)
   }
+
+  clear() {
+    this.map.clear()
+  }
 }
@@ -0,0 +1,225 @@
+import { map } from './operators'
+import { Action, Cell, DerivedCell, type NodeRef } from './realm'
+
+interface HistoryTransaction {
+  before: Record<symbol, unknown>
+  after: Record<symbol, unknown>
+  time: number
+}
+
+interface HistoryStacks {
+  past: HistoryTransaction[]
+  future: HistoryTransaction[]
+}
+
+/**
+ * The options accepted by {@link CellHistory}.
+ * @category History
+ */
+export interface CellHistoryOptions {
+  /**
+   * Changes that happen within the specified amount of milliseconds after the previous change are merged into the same transaction.
+   * Each merged change extends the window. Defaults to 0, which disables the time-based coalescing.
+   */
+  coalesceTime?: number
+  /**
+   * The maximum number of transactions to keep in the undo stack. Unlimited by default.
+   */
+  limit?: number
+}
+
+/**
+ * The nodes that control a cell history, returned from {@link CellHistory}.
+ * @category History
+ */
+export interface CellHistoryNodes {
+  /**
+   * Reverts the last transaction.
+   */
+  undo$: NodeRef<void>
+  /**
+   * Re-applies the last reverted transaction.
+   */
+  redo$: NodeRef<void>
+  /**
+   * True if there's a transaction to undo.
+   */
+  canUndo$: NodeRef<boolean>
+  /**
+   * True if there's a transaction to redo.
+   */
+  canRedo$: NodeRef<boolean>
+  /**
+   * Starts a group. The changes until the matching {@link CellHistoryNodes.endGroup$} are recorded as a single transaction. Groups can be nested.
+   */
+  beginGroup$: NodeRef<void>
+  /**
+   * Ends the group started with {@link CellHistoryNodes.beginGroup$}.
+   */
+  endGroup$: NodeRef<void>
+  /**
+   * Removes all recorded transactions.
+   */
+  clear$: NodeRef<void>
+}
+
+/**
+ * Defines an undo/redo history that records the changes of the specified cells.
+ * The changes published in a single computation cycle (e.g. through `pubIn`) are recorded as a single transaction.
+ * Undoing and redoing a transaction publishes the recorded values back into the cells, so any derived nodes are recomputed.
+ *
+ * The history starts recording once any of the returned nodes is registered in the realm.
+ * @param cells - the cells to record.
+ * @param options - see {@link CellHistoryOptions}.
+ * @example
+ * ```ts
+ * const title$ = Cell('')
+ * const body$ = Cell('')
+ * const { undo$, canUndo$ } = CellHistory([title$, body$], { coalesceTime: 500 })
+ *
+ * const r = new Realm()
+ * r.register(undo$)
+ * r.pub(title$, 'Hello')
+ * r.pub(undo$)
+ * r.getValue(title$) // ''
+ * ```
+ * @category History
+ */
+export function CellHistory(
+  cells: NodeRef[],
+  { coalesceTime = 0, limit = Number.POSITIVE_INFINITY }: CellHistoryOptions = {}
+): CellHistoryNodes {
+  const undo$ = Action((r) => {
+    r.register(stacks$)
+  })
+  const redo$ = Action((r) => {
+    r.register(stacks$)
+  })
+  const beginGroup$ = Action((r) => {
+    r.register(stacks$)
+  })
+  const endGroup$ = Action((r) => {
+    r.register(stacks$)
+  })
+  const clear$ = Action((r) => {
+    r.register(stacks$)
+  })
+
+  const stacks$ = Cell<HistoryStacks>(
+    { past: [], future: [] },
+    (r) => {
+      // registered with the stacks, so that they are correct when read after changes were recorded.
+      r.register(canUndo$)
+      r.register(canRedo$)
+      let lastValues = r.getValues(cells)
+      let lastTransaction: HistoryTransaction | null = null
+      // the stacks published together with the restored values. The restoring cycle is recognized by them,
+      // as with deferred notifications it runs after the undo/redo subscription returns.
+      // Until then, the changes are not recorded, as the restored values overwrite them.
+      let restoredStacks: HistoryStacks | null = null
+      let groupDepth = 0
+
+      const restore = (values: Record<symbol, unknown>, stacks: HistoryStacks) => {
+        const changesCells = cells.some((cell) => Object.prototype.hasOwnProperty.call(values, cell) && values[cell] !== r.getValue(cell))
+        restoredStacks = changesCells ? stacks : null
+        lastTransaction = null
+        r.pubIn({ ...values, [stacks$]: stacks })
+      }
+
+      r.subMultiple(cells, () => {
+        // re-read, as an undo/redo in the same cycle may have restored the cells after the notified values were computed.
+        const values = r.getValues(cells)
+        if (restoredStacks !== null) {
+          if (r.getValue(stacks$) === restoredStacks) {
+            lastValues = values
+            restoredStacks = null
+          }
+          return
+        }
+
+        const before: Record<symbol, unknown> = {}
+        const after: Record<symbol, unknown> = {}
+        let changed = false
+        cells.forEach((cell, index) => {
+          if (values[index] !== lastValues[index]) {
+            before[cell] = lastValues[index]
+            after[cell] = values[index]
+            changed = true
+          }
+        })
+        lastValues = values
+
+        if (!changed) {
+          return
+        }
+
+        const time = r.scheduler.now()
+        const { past } = r.getValue(stacks$)
+        const previous = past[past.length - 1]
+        const merge =
+          previous !== undefined &&
+          previous === lastTransaction &&
+          (groupDepth > 0 || (coalesceTime > 0 && time - previous.time < coalesceTime))
+
+        const transaction: HistoryTransaction = merge
+          ? { before: { ...before, ...previous.before }, after: { ...previous.after, ...after }, time }
+          : { before, after, time }
+
+        lastTransaction = transaction
+        r.pub(stacks$, { past: [...(merge ? past.slice(0, -1) : past), transaction].slice(-limit), future: [] })
+      })
+
+      r.sub(undo$, () => {
+        const { past, future } = r.getValue(stacks$)
+        const transaction = past[past.length - 1]
+        if (transaction !== undefined) {
+          restore(transaction.before, { past: past.slice(0, -1), future: [...future, transaction] })
+        }
+      })
+
+      r.sub(redo$, () => {
+        const { past, future } = r.getValue(stacks$)
+        const transaction = future[future.length - 1]
+        if (transaction !== undefined) {
+          restore(transaction.after, { past: [...past, transaction], future: future.slice(0, -1) })
+        }
+      })
+
+      r.sub(beginGroup$, () => {
+        if (groupDepth === 0) {
+          lastTransaction = null
+        }
+        groupDepth++
+      })
+
+      r.sub(endGroup$, () => {
+        groupDepth = Math.max(0, groupDepth - 1)
+        if (groupDepth === 0) {
+          lastTransaction = null
+        }
+      })
+
+      r.sub(clear$, () => {
+        lastTransaction = null
+        r.pub(stacks$, { past: [], future: [] })
+      })
+    },
+    false
+  )
+
+  const canUndo$ = DerivedCell(false, (r) =>
+    r.pipe(
+      stacks$,
+      map(({ past }) => past.length > 0)
+    )
+  )
+
+  const canRedo$ = DerivedCell(false, (r) =>
+    r.pipe(
+      stacks$,
+      map(({ future }) => future.length > 0)
+    )
+  )
+
+  return { undo$, redo$, canUndo$, canRedo$, beginGroup$, endGroup$, clear$ }
+}
@@ -1,6 +1,6 @@
 import * as React from 'react'
 import { RealmContext } from './react'
-import type { NodeRef } from './realm'
+import type { Distinct, NodeInit, NodeRef, Realm, ResourceState } from './realm'
 
 /**
  * Returns a direct reference to the current realm. Use with caution.
@@ -49,9 +49,60 @@ export function useCellValue<T>(cell: NodeRef<T>) {
   )
 }
 
+/**
+ * Gets a slice of the current value of the cell. The component is re-rendered only when the selected slice changes, according to the equality function.
+ * The selector result is memoized - the selector runs again only when the cell value or the selector changes.
+ *
+ * @param cell - The cell to use.
+ * @param selector - A function that returns the slice of the cell value.
+ * @param equalityFn - Determines if two selected slices are equal. Defaults to `Object.is`.
+ * @returns The selected slice of the cell value.
+ *
+ * @example
+ * ```tsx
+ * const document$ = Cell({ title: 'Hello', blocks: [] })
+ * //...
+ * function Title() {
+ *   const title = useCellSelector(document$, (document) => document.title)
+ *   return <h1>{title}</h1>
+ * }
+ * ```
+ * @category Hooks
+ */
+export function useCellSelector<T, S>(cell: NodeRef<T>, selector: (value: T) => S, equalityFn: (a: S, b: S) => boolean = Object.is): S {
+  const realm = useRealm()
+  realm.register(cell)
+  const committedSelection = React.useRef<{ value: S } | null>(null)
+
+  const subscribe = React.useCallback((c: () => void) => realm.sub(cell, c), [realm, cell])
+
+  const getSelection = React.useMemo(() => {
+    let memoized: { value: T; selection: S } | null = null
+    return () => {
+      const value = realm.getValue(cell)
+      if (memoized !== null && Object.is(memoized.value, value)) {
+        return memoized.selection
+      }
+      const selection = selector(value)
+      const committed = committedSelection.current
+      memoized = { value, selection: committed !== null && equalityFn(committed.value, selection) ? committed.value : selection }
+      return memoized.selection
+    }
+  }, [realm, cell, selector, equalityFn])
+
+  const selection = React.useSyncExternalStore(subscribe, getSelection, getSelection)
+
+  React.useEffect(() => {
+    committedSelection.current = { value: selection }
+  }, [selection])
+
+  return selection
+}
+
 /**
  * Retreives the values of the passed cells.
  * The component is re-rendered each time any of the referred cells changes its value.
+ * The components that use the same cells share a single combined cell, which is disconnected from the cells when none of them is mounted.
  * @category Hooks
  *
  * @example
@@ -148,8 +199,396 @@ export function useCellValues<T1, T2, T3, T4, T5, T6, T7, T8, T9, T10, T11, T12,
 ): [T1, T2, T3, T4, T5, T6, T7, T8, T9, T10, T11, T12, T13] // prettier-ignore
 export function useCellValues(...cells: NodeRef[]): unknown[] {
   const realm = useRealm()
-  // biome-ignore lint/suspicious/noExplicitAny: I know why we need any here
-  return useCellValue(realm.combineCells.apply(realm, cells as any))
+  const combined = getCombinedCells(realm, cells)
+
+  const cb = React.useCallback((c: () => void) => subscribeCombinedCells(realm, combined, c), [realm, combined])
+
+  return React.useSyncExternalStore(
+    cb,
+    () => readCombinedCells(realm, combined),
+    () => readCombinedCells(realm, combined)
+  )
+}
+
+interface CombinedCells {
+  cells: NodeRef[]
+  // created when the first component subscribes, and released when the last one unsubscribes.
+  node: NodeRef<unknown[]> | null
+  refCount: number
+  disconnect: (() => void) | null
+  // the values read while the combined cell is disconnected, kept as a stable snapshot.
+  values: unknown[]
+  listed: boolean
+}
+
+// the combined cells of each realm, shared by the useCellValues calls with the same cell list.
+const combinedCells$$ = new WeakMap<Realm, CombinedCells[]>()
+
+function getRealmCombinedCells(realm: Realm) {
+  let realmCombinedCells = combinedCells$$.get(realm)
+  if (realmCombinedCells === undefined) {
+    realmCombinedCells = []
+    combinedCells$$.set(realm, realmCombinedCells)
+  }
+  return realmCombinedCells
+}
+
+function getCombinedCells(realm: Realm, cells: NodeRef[]) {
+  const realmCombinedCells = getRealmCombinedCells(realm)
+  let combined = realmCombinedCells.find(
+    (entry) => entry.cells.length === cells.length && entry.cells.every((cell, index) => cell === cells[index])
+  )
+  if (combined === undefined) {
+    for (const cell of cells) {
+      realm.register(cell)
+    }
+    const entry: CombinedCells = { cells, node: null, refCount: 0, disconnect: null, values: realm.getValues(cells), listed: true }
+    realmCombinedCells.push(entry)
+    // drops the entries of the renders that were not committed.
+    queueMicrotask(() => {
+      releaseUnusedCombinedCells(realm, entry)
+    })
+    combined = entry
+  }
+  return combined
+}
+
+// the combined cell does not follow its sources while disconnected, so the values are read from the cells directly.
+function readCombinedCells(realm: Realm, combined: CombinedCells) {
+  if (combined.node !== null && combined.disconnect !== null) {
+    return realm.getValue(combined.node)
+  }
+  const values = realm.getValues(combined.cells)
+  if (values.some((value, index) => value !== combined.values[index])) {
+    combined.values = values
+  }
+  return combined.values
+}
+
+// connects the combined cell to its sources while there are components subscribed to it.
+function subscribeCombinedCells(realm: Realm, combined: CombinedCells, callback: () => void) {
+  combined.refCount++
+  if (!combined.listed) {
+    // dropped between the render and the subscription of the component.
+    combined.listed = true
+    getRealmCombinedCells(realm).push(combined)
+  }
+  let node = combined.node
+  if (node === null) {
+    // starts with the snapshot returned by the last render, so that the component does not re-render.
+    node = realm.cellInstance(readCombinedCells(realm, combined))
+    combined.node = node
+    combined.disconnect = realm.connect({
+      map:
+        (done) =>
+        (...args) => {
+          done(args)
+        },
+      sink: node,
+      sources: combined.cells,
+    })
+  }
+  const unsub = realm.sub(node, callback)
+
+  return () => {
+    unsub()
+    combined.refCount--
+    // deferred, so that StrictMode re-mounts and components that subscribe right after reuse the connection.
+    queueMicrotask(() => {
+      releaseUnusedCombinedCells(realm, combined)
+    })
+  }
+}
+
+function releaseUnusedCombinedCells(realm: Realm, combined: CombinedCells) {
+  if (combined.refCount > 0 || !combined.listed) {
+    return
+  }
+  combined.listed = false
+  const realmCombinedCells = getRealmCombinedCells(realm)
+  realmCombinedCells.splice(realmCombinedCells.indexOf(combined), 1)
+  if (combined.node !== null) {
+    combined.values = realm.getValue(combined.node)
+    combined.disconnect?.()
+    if (!realm.isDisposed) {
+      realm.release(combined.node)
+    }
+    combined.node = null
+    combined.disconnect = null
+  }
+}
+
+/**
+ * Calls the callback each time the node emits, until the component unmounts. Works with both stateful and stateless nodes.
+ * The latest callback is used without re-subscribing, so it's safe to pass an inline function.
+ * @param node - The node to subscribe to.
+ * @param callback - The function to call with the emitted values.
+ * @example
+ * ```tsx
+ * const saved$ = Action()
+ * //...
+ * function SaveNotification() {
+ *   const [visible, setVisible] = React.useState(false)
+ *   useSubscription(saved$, () => setVisible(true))
+ *   return visible ? <div>Saved</div> : null
+ * }
+ * ```
+ * @category Hooks
+ */
+export function useSubscription<T>(node: NodeRef<T>, callback: (value: T) => void) {
+  const realm = useRealm()
+  const callbackRef = React.useRef(callback)
+
+  React.useEffect(() => {
+    callbackRef.current = callback
+  })
+
+  React.useEffect(() => {
+    const unsub = realm.sub(node, (value) => {
+      callbackRef.current(value)
+    })
+    return () => {
+      unsub()
+    }
+  }, [realm, node])
+}
+
+/**
+ * Returns the last value emitted by the node since the component has mounted. Useful for stateless nodes (signals), which values can't be read with {@link useCellValue}.
+ * @param node - The node to subscribe to.
+ * @param initial - The value to return before the node emits.
+ * @example
+ * ```tsx
+ * const notification$ = Signal<string>()
+ * //...
+ * function Notification() {
+ *   const message = useSignalValue(notification$, '')
+ *   return <div>{message}</div>
+ * }
+ * ```
+ * @category Hooks
+ */
+export function useSignalValue<T>(node: NodeRef<T>, initial: T): T // prettier-ignore
+export function useSignalValue<T>(node: NodeRef<T>): T | undefined // prettier-ignore
+export function useSignalValue<T>(node: NodeRef<T>, initial?: T) {
+  const [value, setValue] = React.useState(initial)
+  useSubscription(node, (nextValue) => {
+    // wrapped, as function values would be treated as state updaters.
+    setValue(() => nextValue)
+  })
+  return value
+}
+
+/**
+ * Creates a cell that belongs to the component instance. The cell is registered in the current realm, and its initial value is set on the first render.
+ * The init function wires the cell when the component mounts. The subscriptions, connections, nodes and cleanup functions it creates are removed when the component unmounts, and the cell is released from the realm (see {@link Realm.release}).
+ * The latest init function is used when the component re-mounts, so it's safe to pass an inline function.
+ * @param initial - The initial value of the cell.
+ * @param init - Wires the cell in the realm, like the init function of {@link Cell}.
+ * @param distinct - See {@link Cell}.
+ * @example
+ * ```tsx
+ * function ListItemEditor({ item }: { item: Item }) {
+ *   const title$ = useLocalCell(item.title, (r, title$) => {
+ *     r.link(r.pipe(title$, debounceTime(300), map((title) => ({ ...item, title }))), itemChanged$)
+ *   })
+ *   const [title, setTitle] = useCell(title$)
+ *   return <input value={title} onChange={(e) => setTitle(e.target.value)} />
+ * }
+ * ```
+ * @category Hooks
+ */
+export function useLocalCell<T>(initial: T, init?: NodeInit<T>, distinct: Distinct<T> = true): NodeRef<T> {
+  const realm = useRealm()
+  // keeps the current value of the cell, so the initial value is used only when the cell is created.
+  return useLocalNode(realm, (node) => realm.cellInstance(initial, distinct, node), init)
+}
+
+/**
+ * Creates a signal that belongs to the component instance. Works like {@link useLocalCell}, except that the node is stateless.
+ * @param init - Wires the signal in the realm, like the init function of {@link Signal}.
+ * @param distinct - See {@link Signal}.
+ * @category Hooks
+ */
+export function useLocalSignal<T>(init?: NodeInit<T>, distinct: Distinct<T> = false): NodeRef<T> {
+  const realm = useRealm()
+  return useLocalNode(realm, (node) => realm.signalInstance<T>(distinct, node), init)
+}
+
+const useIsomorphicLayoutEffect = typeof window !== 'undefined' ? React.useLayoutEffect : React.useEffect
+
+// the node is created in the realm on render, so that the hooks of the component can read it right away.
+// The renders that are not committed, like the first render of StrictMode and the renders interrupted by Suspense, release the node they have created.
+function useLocalNode<T>(realm: Realm, create: (node: symbol) => NodeRef<T>, init: NodeInit<T> | undefined) {
+  // biome-ignore lint/correctness/useExhaustiveDependencies: a new node is created for each realm
+  const symbol = React.useMemo(() => Symbol(), [realm])
+  const node = create(symbol)
+  const committedNode = React.useRef<symbol | null>(null)
+  const createRef = React.useRef(create)
+  const initRef = React.useRef(init)
+  const mounted = React.useRef(false)
+
+  if (committedNode.current !== node) {
+    queueMicrotask(() => {
+      if (committedNode.current !== node && !realm.isDisposed) {
+        realm.release(node)
+      }
+    })
+  }
+
+  React.useEffect(() => {
+    createRef.current = create
+    initRef.current = init
+  })
+
+  useIsomorphicLayoutEffect(() => {
+    committedNode.current = node
+    // re-creates the node if a concurrent render has yielded before the commit, and the node was released in the meantime.
+    createRef.current(node)
+  }, [node])
+
+  React.useEffect(() => {
+    mounted.current = true
+    const dispose = realm.scope(() => {
+      initRef.current?.(realm, node)
+    })
+    return () => {
+      mounted.current = false
+      dispose()
+      // deferred, so that the node survives the StrictMode re-mount.
+      queueMicrotask(() => {
+        if (!mounted.current && !realm.isDisposed) {
+          realm.release(node)
+        }
+      })
+    }
+  }, [realm, node])
+
+  return node
+}
+
+/**
+ * Gets the resolved value of a cell that holds a promise or the state of a {@link Resource}, suspending the component while the value is pending.
+ * The component renders again when the promise settles, and the errors (rejected promises or resources with an `error` status) are thrown to the nearest error boundary.
+ * With React 19, the pending promises are passed to `React.use`.
+ *
+ * Unlike {@link useCellValue}, the cell changes are applied as regular state updates, so publishing a new promise within `startTransition` keeps the current content on the screen instead of showing the suspense fallback.
+ * @param cell - The cell to use.
+ * @returns The resolved value of the promise, or the data of the resource.
+ * @example
+ * ```tsx
+ * const userId$ = Cell(1)
+ * const { state$: user$ } = Resource(([userId], signal) => fetchUser(userId, signal), [userId$])
+ * //...
+ * function User() {
+ *   const user = useSuspenseCellValue(user$)
+ *   return <div>{user.name}</div>
+ * }
+ *
+ * function App() {
+ *   return (
+ *     <React.Suspense fallback="Loading...">
+ *       <User />
+ *     </React.Suspense>
+ *   )
+ * }
+ * ```
+ * @category Hooks
+ */
+export function useSuspenseCellValue<T>(cell: NodeRef<ResourceState<T>>): T // prettier-ignore
+export function useSuspenseCellValue<T>(cell: NodeRef<T>): Awaited<T> // prettier-ignore
+export function useSuspenseCellValue(cell: NodeRef): unknown {
+  const realm = useRealm()
+  realm.register(cell)
+  const [snapshot, setSnapshot] = React.useState(() => ({ realm, cell, value: realm.getValue(cell) }))
+  const value = snapshot.realm === realm && snapshot.cell === cell ? snapshot.value : realm.getValue(cell)
+
+  React.useEffect(() => {
+    const update = (value: unknown) => {
+      setSnapshot((current) =>
+        current.realm === realm && current.cell === cell && Object.is(current.value, value) ? current : { realm, cell, value }
+      )
+    }
+    // catch up with the changes made between the render and the subscription.
+    update(realm.getValue(cell))
+    return realm.sub(cell, update)
+  }, [realm, cell])
+
+  return readSuspenseValue(value)
+}
+
+interface PromiseStatus {
+  status: 'pending' | 'fulfilled' | 'rejected'
+  value?: unknown
+  reason?: unknown
+}
+
+// the settled values of the promises read by useSuspenseCellValue, so that the renders after the promise settles can read them synchronously.
+const promiseStatuses$$ = new WeakMap<PromiseLike<unknown>, PromiseStatus>()
+
+// available in React 19.
+const use = (React as { use?: <T>(usable: PromiseLike<T>) => T }).use
+
+function readSuspenseValue(value: unknown) {
+  if (isResourceState(value)) {
+    switch (value.status) {
+      case 'loading':
+        return readPromise(value.promise)
+      case 'error':
+        throw value.error
+      default:
+        return value.data
+    }
+  }
+  if (isPromiseLike(value)) {
+    return readPromise(value)
+  }
+  return value
+}
+
+function readPromise(promise: PromiseLike<unknown>) {
+  let promiseStatus = promiseStatuses$$.get(promise)
+  if (promiseStatus === undefined) {
+    const trackedStatus: PromiseStatus = { status: 'pending' }
+    promise.then(
+      (value) => {
+        trackedStatus.status = 'fulfilled'
+        trackedStatus.value = value
+      },
+      (reason: unknown) => {
+        trackedStatus.status = 'rejected'
+        trackedStatus.reason = reason
+      }
+    )
+    promiseStatuses$$.set(promise, trackedStatus)
+    promiseStatus = trackedStatus
+  }
+  if (promiseStatus.status === 'fulfilled') {
+    return promiseStatus.value
+  }
+  if (promiseStatus.status === 'rejected') {
+    throw promiseStatus.reason
+  }
+  if (use !== undefined) {
+    return use(promise)
+  }
+  throw promise
+}
+
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return (
+    value !== null &&
+    (typeof value === 'object' || typeof value === 'function') &&
+    typeof (value as PromiseLike<unknown>).then === 'function'
+  )
+}
+
+function isResourceState(value: unknown): value is ResourceState<unknown> {
+  if (value === null || typeof value !== 'object' || !('status' in value) || !('data' in value)) {
+    return false
+  }
+  const { status } = value
+  return status === 'idle' || status === 'loading' || status === 'success' || status === 'error'
 }
 
 /**
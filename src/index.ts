@@ -1,4 +1,7 @@
 export * from './realm'
 export * from './hooks'
 export * from './operators'
-export { RealmProvider, RealmContext } from './react'
+export * from './history'
+export * from './trace'
+export * from './scheduler'
+export { RealmProvider, RealmContext, RealmStateScript, REALM_STATE_SCRIPT_ID, readRealmState, serializeRealmState } from './react'
@@ -1,4 +1,4 @@
-import type { NodeRef, Realm } from './realm'
+import { type NodeRef, type Realm, defaultComparator } from './realm'
 
 /**
  * An operator that transforms a node into another node, used in the {@link Realm.pipe} method.
@@ -114,19 +114,65 @@ export function filter<I, O = I>(predicate: (value: I) => boolean) {
 }
 
 /**
- * Operator that captures the first emitted value of a node.
+ * Operator that captures the first emitted value of a node. Equivalent to `take(1)`.
  * Useful if you want to execute a side effect only once.
  * @category Operators
  */
 export function once<I>() {
+  return take<I>(1)
+}
+
+/**
+ * Emits only the values that differ from the previous emitted value.
+ * @param compare - optional. Either a comparator that receives the previous and the current values and returns true if they are equal,
+ * or a key selector that receives a single value and returns a key to compare with `===`. Functions with two declared parameters are treated as comparators.
+ * Defaults to `===` comparison of the values.
+ * @example
+ * ```ts
+ * const user$ = Signal<{ id: number; name: string }>()
+ * const r = new Realm()
+ * const userChanged$ = r.pipe(user$, distinctUntilChanged((user) => user.id))
+ * ```
+ * @category Operators
+ */
+export function distinctUntilChanged<I>(compare?: (previous: I, current: I) => boolean): Operator<I, I> // prettier-ignore
+export function distinctUntilChanged<I, K>(compare: (value: I) => K): Operator<I, I> // prettier-ignore
+export function distinctUntilChanged<I>(compare: ((previous: I, current: I) => boolean) | ((value: I) => unknown) = defaultComparator) {
+  const isEqual =
+    compare.length >= 2
+      ? (compare as (previous: I, current: I) => boolean)
+      : (previous: I, current: I) => (compare as (value: I) => unknown)(previous) === (compare as (value: I) => unknown)(current)
   return ((source, r) => {
     const sink = r.signalInstance<I>()
+    const noValue = Symbol()
+    let previous: I | typeof noValue = noValue
+    r.connect({
+      map: (done) => (value) => {
+        if (previous === noValue || !isEqual(previous, value as I)) {
+          previous = value as I
+          done(value)
+        }
+      },
+      sink,
+      sources: [source],
+    })
+    return sink
+  }) as Operator<I, I>
+}
 
-    let passed = false
+/**
+ * Skips the specified amount of values, and emits the rest.
+ * @category Operators
+ */
+export function skip<I>(count: number) {
+  return ((source, r) => {
+    const sink = r.signalInstance<I>()
+    let skipped = 0
     r.connect({
       map: (done) => (value) => {
-        if (!passed) {
-          passed = true
+        if (skipped < count) {
+          skipped++
+        } else {
           done(value)
         }
       },
@@ -137,6 +183,148 @@ export function once<I>() {
   }) as Operator<I, I>
 }
 
+/**
+ * Skips the values while the predicate returns true. Emits all values after the predicate returns false for the first time.
+ * @category Operators
+ */
+export function skipWhile<I>(predicate: (value: I) => boolean) {
+  return ((source, r) => {
+    const sink = r.signalInstance<I>()
+    let skipping = true
+    r.connect({
+      map: (done) => (value) => {
+        if (skipping && !predicate(value as I)) {
+          skipping = false
+        }
+        if (!skipping) {
+          done(value)
+        }
+      },
+      sink,
+      sources: [source],
+    })
+    return sink
+  }) as Operator<I, I>
+}
+
+/**
+ * Emits the specified amount of values. After that, the operator detaches from the source node and completes the resulting node.
+ * @category Operators
+ */
+export function take<I>(count: number) {
+  return ((source, r) => {
+    const sink = r.signalInstance<I>()
+    let taken = 0
+    const disconnect = r.connect({
+      map: (done) => (value) => {
+        taken++
+        done(value)
+        if (taken >= count) {
+          disconnect()
+          r.complete(sink)
+        }
+      },
+      sink,
+      sources: [source],
+    })
+    if (count <= 0) {
+      disconnect()
+      r.complete(sink)
+    }
+    return sink
+  }) as Operator<I, I>
+}
+
+/**
+ * Emits the values while the predicate returns true. When the predicate returns false, the value is not emitted, the operator detaches from the source node and completes the resulting node.
+ * @category Operators
+ */
+export function takeWhile<I>(predicate: (value: I) => boolean) {
+  return ((source, r) => {
+    const sink = r.signalInstance<I>()
+    const disconnect = r.connect({
+      map: (done) => (value) => {
+        if (predicate(value as I)) {
+          done(value)
+        } else {
+          disconnect()
+          r.complete(sink)
+        }
+      },
+      sink,
+      sources: [source],
+    })
+    return sink
+  }) as Operator<I, I>
+}
+
+/**
+ * Emits the values of the source node until the notifier node emits. After that, the operator detaches from both nodes and completes the resulting node.
+ * The notifier stops the emissions once its subscriptions are called, so a source value published in the same computation cycle as the notifier is still emitted.
+ * @param notifier - the node that stops the emissions.
+ * @category Operators
+ */
+export function takeUntil<I>(notifier: NodeRef) {
+  return ((source, r) => {
+    const sink = r.signalInstance<I>()
+    const disconnect = r.connect({
+      map: (done) => (value) => {
+        done(value)
+      },
+      sink,
+      sources: [source],
+    })
+    const unsubscribe = r.sub(notifier, () => {
+      disconnect()
+      unsubscribe()
+      r.complete(sink)
+    })
+    return sink
+  }) as Operator<I, I>
+}
+
+/**
+ * Emits the last value of the source node when the source completes, and completes the resulting node. See {@link Realm.complete}.
+ * @category Operators
+ */
+export function last<I>() {
+  return ((source, r) => {
+    const sink = r.signalInstance<I>()
+    const noValue = Symbol()
+    let latest: I | typeof noValue = noValue
+    r.sub(source, (value) => {
+      latest = value
+    })
+    r.onComplete(source, () => {
+      if (latest !== noValue) {
+        r.pub(sink, latest)
+      }
+      r.complete(sink)
+    })
+    return sink
+  }) as Operator<I, I>
+}
+
+/**
+ * Accumulates the values of the source node, and emits the result when the source completes. See {@link Realm.complete}.
+ * Unlike {@link scan}, emits only once.
+ * @category Operators
+ */
+export function reduce<I, O>(accumulator: (current: O, value: I) => O, seed: O) {
+  return ((source, r) => {
+    const sink = r.signalInstance<O>()
+    let current = seed
+    r.sub(source, (value) => {
+      current = accumulator(current, value)
+    })
+    r.onComplete(source, () => {
+      r.pub(sink, current)
+      r.complete(sink)
+    })
+    return sink
+  }) as Operator<I, O>
+}
+
 /**
  * Operator that runs with the latest and the current value of a node.
  * Works like the {@link https://rxjs.dev/api/operators/scan | RxJS scan operator}.
@@ -159,26 +347,72 @@ export function scan<I, O>(accumulator: (current: O, value: I) => O, seed: O) {
 }
 
 /**
- * Throttles the output of a node with the specified delay.
+ * The options accepted by {@link throttleTime}.
+ * @category Operators
+ */
+export interface ThrottleOptions {
+  /**
+   * Emit the first value of the throttle window immediately. Defaults to false.
+   */
+  leading?: boolean
+  /**
+   * Emit the last value received during the throttle window when the window ends. Defaults to true.
+   */
+  trailing?: boolean
+}
+
+/**
+ * Throttles the output of a node with the specified delay. The pending trailing value is emitted when the source node completes.
+ * @param delay - the duration of the throttle window in milliseconds.
+ * @param options - see {@link ThrottleOptions}.
  * @category Operators
  */
-export function throttleTime<I>(delay: number) {
+export function throttleTime<I>(delay: number, { leading = false, trailing = true }: ThrottleOptions = {}) {
   return ((source, r) => {
     const sink = r.signalInstance<I>()
-    let currentValue: I | undefined
-    let timeout: ReturnType<typeof setTimeout> | null = null
+    let pendingValue: I | undefined
+    let hasPendingValue = false
+    let cancelWindow: (() => void) | null = null
+
+    const startWindow = () => {
+      cancelWindow = r.scheduler.schedule(() => {
+        cancelWindow = null
+        if (trailing && hasPendingValue) {
+          hasPendingValue = false
+          r.pub(sink, pendingValue)
+          // prevents the next leading value from immediately following the trailing one.
+          if (leading) {
+            startWindow()
+          }
+        }
+      }, delay)
+    }
 
     r.sub(source, (value) => {
-      currentValue = value
+      if (cancelWindow === null && leading) {
+        r.pub(sink, value)
+      } else {
+        pendingValue = value
+        hasPendingValue = true
+      }
 
-      if (timeout !== null) {
-        return
+      if (cancelWindow === null) {
+        startWindow()
       }
+    })
 
-      timeout = setTimeout(() => {
-        timeout = null
-        r.pub(sink, currentValue)
-      }, delay)
+    r.onComplete(source, () => {
+      cancelWindow?.()
+      cancelWindow = null
+      if (trailing && hasPendingValue) {
+        hasPendingValue = false
+        r.pub(sink, pendingValue)
+      }
+      r.complete(sink)
+    })
+
+    r.onDispose(() => {
+      cancelWindow?.()
     })
 
     return sink
@@ -186,43 +420,272 @@ export function throttleTime<I>(delay: number) {
 }
 
 /**
- * Debounces the output of a node with the specified delay.
+ * Emits the last value received within the specified duration after the first one. Equivalent to `throttleTime(delay)`.
+ * @param delay - the duration in milliseconds.
  * @category Operators
  */
-export function debounceTime<I>(delay: number) {
+export function auditTime<I>(delay: number) {
+  return throttleTime<I>(delay, { leading: false, trailing: true })
+}
+
+/**
+ * The options accepted by {@link debounceTime}.
+ * @category Operators
+ */
+export interface DebounceOptions {
+  /**
+   * The maximum time in milliseconds the emission can be postponed for, after which the last value is emitted.
+   */
+  maxWait?: number
+}
+
+/**
+ * Debounces the output of a node with the specified delay. The pending value is emitted when the source node completes.
+ * @param delay - the time in milliseconds that should pass without new values before the last value is emitted.
+ * @param options - see {@link DebounceOptions}.
+ * @category Operators
+ */
+export function debounceTime<I>(delay: number, { maxWait }: DebounceOptions = {}) {
   return ((source, r) => {
     const sink = r.signalInstance<I>()
     let currentValue: I | undefined
-    let timeout: ReturnType<typeof setTimeout> | null = null
+    let cancelDelay: (() => void) | null = null
+    let cancelMaxWait: (() => void) | null = null
+
+    const cancel = () => {
+      cancelDelay?.()
+      cancelDelay = null
+      cancelMaxWait?.()
+      cancelMaxWait = null
+    }
+
+    const flush = () => {
+      cancel()
+      r.pub(sink, currentValue)
+    }
 
     r.sub(source, (value) => {
       currentValue = value
 
-      if (timeout !== null) {
-        clearTimeout(timeout)
+      cancelDelay?.()
+      cancelDelay = r.scheduler.schedule(flush, delay)
+
+      if (maxWait !== undefined && cancelMaxWait === null) {
+        cancelMaxWait = r.scheduler.schedule(flush, maxWait)
       }
+    })
 
-      timeout = setTimeout(() => {
-        r.pub(sink, currentValue)
-      }, delay)
+    r.onComplete(source, () => {
+      if (cancelDelay !== null) {
+        flush()
+      }
+      r.complete(sink)
     })
 
+    r.onDispose(cancel)
+
     return sink
   }) as Operator<I, I>
 }
 
 /**
- * Delays the output of a node with `queueMicrotask`.
+ * Collects the values received within the specified duration after the first one, and emits them as an array at the end of each window. The remaining values are flushed when the source node completes.
+ * @param duration - the duration of the buffer in milliseconds.
  * @category Operators
  */
-export function delayWithMicrotask<I>() {
+export function bufferTime<I>(duration: number) {
+  return ((source, r) => {
+    const sink = r.signalInstance<I[]>()
+    let buffer: I[] = []
+    let cancelWindow: (() => void) | null = null
+
+    r.sub(source, (value) => {
+      buffer.push(value)
+
+      if (cancelWindow === null) {
+        cancelWindow = r.scheduler.schedule(() => {
+          cancelWindow = null
+          const values = buffer
+          buffer = []
+          r.pub(sink, values)
+        }, duration)
+      }
+    })
+
+    r.onComplete(source, () => {
+      cancelWindow?.()
+      if (buffer.length > 0) {
+        r.pub(sink, buffer)
+      }
+      r.complete(sink)
+    })
+
+    r.onDispose(() => {
+      cancelWindow?.()
+    })
+
+    return sink
+  }) as Operator<I, I[]>
+}
+
+/**
+ * Collects the specified amount of values and emits them as an array. The remaining values are emitted when the source node completes.
+ * @param count - the size of the buffer.
+ * @category Operators
+ */
+export function bufferCount<I>(count: number) {
+  return ((source, r) => {
+    const sink = r.signalInstance<I[]>()
+    let buffer: I[] = []
+
+    r.connect({
+      map: (done) => (value) => {
+        buffer.push(value as I)
+        if (buffer.length >= count) {
+          const values = buffer
+          buffer = []
+          done(values)
+        }
+      },
+      sink,
+      sources: [source],
+    })
+
+    r.onComplete(source, () => {
+      if (buffer.length > 0) {
+        r.pub(sink, buffer)
+      }
+    })
+
+    return sink
+  }) as Operator<I, I[]>
+}
+
+/**
+ * Emits the latest value of the node at the specified interval, if the node has emitted since the previous sample.
+ * The interval starts with the first value, and stops when a period passes without new values. The value received since the last sample is emitted when the source node completes.
+ * @param period - the sampling interval in milliseconds.
+ * @category Operators
+ */
+export function sampleTime<I>(period: number) {
   return ((source, r) => {
     const sink = r.signalInstance<I>()
+    let latestValue: I | undefined
+    let hasValue = false
+    let cancelSample: (() => void) | null = null
+
+    const scheduleSample = () => {
+      cancelSample = r.scheduler.schedule(() => {
+        if (!hasValue) {
+          cancelSample = null
+          return
+        }
+        scheduleSample()
+        hasValue = false
+        r.pub(sink, latestValue)
+      }, period)
+    }
+
     r.sub(source, (value) => {
-      queueMicrotask(() => {
+      latestValue = value
+      hasValue = true
+
+      if (cancelSample === null) {
+        scheduleSample()
+      }
+    })
+
+    r.onComplete(source, () => {
+      cancelSample?.()
+      cancelSample = null
+      if (hasValue) {
+        hasValue = false
+        r.pub(sink, latestValue)
+      }
+      r.complete(sink)
+    })
+
+    r.onDispose(() => {
+      cancelSample?.()
+    })
+
+    return sink
+  }) as Operator<I, I>
+}
+
+/**
+ * Delays each value of the node with the specified duration. When the source node completes, the resulting node completes after the pending values are emitted.
+ * @param duration - the delay in milliseconds.
+ * @category Operators
+ */
+export function delay<I>(duration: number) {
+  return ((source, r) => {
+    const sink = r.signalInstance<I>()
+    const pending = new Set<() => void>()
+    let sourceCompleted = false
+
+    const completeWhenIdle = () => {
+      if (sourceCompleted && pending.size === 0) {
+        r.complete(sink)
+      }
+    }
+
+    r.sub(source, (value) => {
+      const cancel = r.scheduler.schedule(() => {
+        pending.delete(cancel)
         r.pub(sink, value)
+        completeWhenIdle()
+      }, duration)
+      pending.add(cancel)
+    })
+
+    r.onComplete(source, () => {
+      sourceCompleted = true
+      completeWhenIdle()
+    })
+
+    r.onDispose(() => {
+      for (const cancel of pending) {
+        cancel()
+      }
+      pending.clear()
+    })
+
+    return sink
+  }) as Operator<I, I>
+}
+
+/**
+ * Delays the output of a node to the next microtask of the realm scheduler. When the source node completes, the resulting node completes after the pending values are emitted.
+ * @category Operators
+ */
+export function delayWithMicrotask<I>() {
+  return ((source, r) => {
+    const sink = r.signalInstance<I>()
+    let pendingCount = 0
+    let sourceCompleted = false
+
+    const completeWhenIdle = () => {
+      if (sourceCompleted && pendingCount === 0) {
+        r.complete(sink)
+      }
+    }
+
+    r.sub(source, (value) => {
+      pendingCount++
+      r.scheduler.queueMicrotask(() => {
+        pendingCount--
+        if (!r.isDisposed) {
+          r.pub(sink, value)
+          completeWhenIdle()
+        }
       })
     })
+
+    r.onComplete(source, () => {
+      sourceCompleted = true
+      completeWhenIdle()
+    })
     return sink
   }) as Operator<I, I>
 }
@@ -254,7 +717,7 @@ export function onNext<I, O>(bufNode: NodeRef<O>) {
 }
 
 /**
- * Handles a promise value through the specified callbacks.
+ * Handles a promise value through the specified callbacks. When the source node completes, the resulting node completes after the pending promises settle.
  * @category Operators
  */
 export function handlePromise<I, OutSuccess, OnLoad, OutError>(
@@ -264,21 +727,360 @@ export function handlePromise<I, OutSuccess, OnLoad, OutError>(
 ) {
   return ((source, r) => {
     const sink = r.signalInstance<OutSuccess | OnLoad | OutError>()
+    let pendingCount = 0
+    let sourceCompleted = false
+
+    const completeWhenIdle = () => {
+      if (sourceCompleted && pendingCount === 0 && !r.isDisposed) {
+        r.complete(sink)
+      }
+    }
+
     r.sub(source, (value) => {
       if (value !== null && typeof value === 'object' && 'then' in value) {
+        pendingCount++
         r.pub(sink, onLoad())
         value
           .then((value) => {
-            r.pub(sink, onSuccess(value))
+            if (!r.isDisposed) {
+              r.pub(sink, onSuccess(value))
+            }
             return
           })
           .catch((error: unknown) => {
-            r.pub(sink, onError(error))
+            if (!r.isDisposed) {
+              r.pub(sink, onError(error))
+            }
+          })
+          .finally(() => {
+            pendingCount--
+            completeWhenIdle()
           })
       } else {
         r.pub(sink, onSuccess(value))
       }
     })
+
+    r.onComplete(source, () => {
+      sourceCompleted = true
+      completeWhenIdle()
+    })
     return sink
   }) as Operator<I | Promise<I>, OutSuccess | OnLoad | OutError>
 }
+
+/**
+ * The value returned from the project function of {@link switchMap}, {@link mergeMap}, {@link concatMap} and {@link exhaustMap}.
+ * Either a promise, or a node which next value is emitted by the resulting node.
+ * @category Operators
+ */
+export type InnerSource<T> = Promise<T> | NodeRef<T>
+
+/**
+ * The project function of the flattening operators. The passed abort signal is aborted when the result of the function is no longer needed.
+ * @category Operators
+ */
+export type FlatProject<I, O> = (value: I, signal: AbortSignal) => InnerSource<O>
+
+type FlattenStrategy = 'switch' | 'merge' | 'concat' | 'exhaust'
+
+// throws the error in a separate task, so that it surfaces as an uncaught error instead of an unhandled rejection of the promise callback that caught it.
+function rethrowLater(r: Realm, error: unknown) {
+  r.scheduler.schedule(() => {
+    throw error
+  }, 0)
+}
+
+function flatten<I, O>(strategy: FlattenStrategy, project: FlatProject<I, O>) {
+  return ((source, r) => {
+    const sink = r.signalInstance<O>()
+    const active = new Set<AbortController>()
+    const queue: I[] = []
+    let sourceCompleted = false
+
+    const completeWhenIdle = () => {
+      if (sourceCompleted && active.size === 0 && queue.length === 0 && !r.isDisposed) {
+        r.complete(sink)
+      }
+    }
+
+    const run = (value: I) => {
+      const controller = new AbortController()
+      active.add(controller)
+
+      const settle = () => {
+        active.delete(controller)
+        if (strategy === 'concat' && queue.length > 0 && !r.isDisposed) {
+          run(queue.shift() as I)
+        }
+        completeWhenIdle()
+      }
+
+      const inner = project(value, controller.signal)
+      if (typeof inner === 'symbol') {
+        const unsub = r.sub(inner, (result) => {
+          unsub()
+          try {
+            r.pub(sink, result)
+          } finally {
+            settle()
+          }
+        })
+        controller.signal.addEventListener('abort', unsub)
+      } else {
+        inner.then(
+          (result) => {
+            if (!controller.signal.aborted && !r.isDisposed) {
+              try {
+                r.pub(sink, result)
+              } catch (error) {
+                rethrowLater(r, error)
+              } finally {
+                settle()
+              }
+            }
+          },
+          (error: unknown) => {
+            if (!controller.signal.aborted && !r.isDisposed) {
+              try {
+                r.reportError({ error, node: sink, source: 'projection' })
+              } catch (unhandledError) {
+                rethrowLater(r, unhandledError)
+              } finally {
+                settle()
+              }
+            }
+          }
+        )
+      }
+    }
+
+    r.sub(source, (value) => {
+      switch (strategy) {
+        case 'switch':
+          for (const controller of active) {
+            controller.abort()
+          }
+          active.clear()
+          run(value)
+          break
+        case 'merge':
+          run(value)
+          break
+        case 'concat':
+          if (active.size > 0) {
+            queue.push(value)
+          } else {
+            run(value)
+          }
+          break
+        case 'exhaust':
+          if (active.size === 0) {
+            run(value)
+          }
+          break
+      }
+    })
+
+    r.onComplete(source, () => {
+      sourceCompleted = true
+      completeWhenIdle()
+    })
+
+    r.onDispose(() => {
+      queue.length = 0
+      for (const controller of active) {
+        controller.abort()
+      }
+      active.clear()
+    })
+
+    return sink
+  }) as Operator<I, O>
+}
+
+/**
+ * Maps each value to a promise or a node, and emits the result of the latest one. When a new value arrives, the signal passed to the previous project call is aborted and its result is ignored.
+ * Rejected promises are reported through {@link Realm.reportError}. If the realm does not handle them, they are thrown in a separate task.
+ * When the source node completes, the resulting node completes after the pending inner sources settle.
+ * @example
+ * ```ts
+ * const query$ = Signal<string>()
+ * const results$ = Signal<string[]>((r) => {
+ *   r.link(r.pipe(query$, switchMap((query, signal) => fetch(`/search?q=${query}`, { signal }).then((res) => res.json()))), results$)
+ * })
+ * ```
+ * @category Operators
+ */
+export function switchMap<I, O>(project: FlatProject<I, O>) {
+  return flatten('switch', project)
+}
+
+/**
+ * Maps each value to a promise or a node, and emits the results of all of them, in the order they settle.
+ * Rejected promises are reported through {@link Realm.reportError}. If the realm does not handle them, they are thrown in a separate task.
+ * When the source node completes, the resulting node completes after the pending inner sources settle.
+ * @category Operators
+ */
+export function mergeMap<I, O>(project: FlatProject<I, O>) {
+  return flatten('merge', project)
+}
+
+/**
+ * Maps each value to a promise or a node. The values that arrive while the previous result is pending are queued, and projected one by one after it settles.
+ * Rejected promises are reported through {@link Realm.reportError}. If the realm does not handle them, they are thrown in a separate task.
+ * When the source node completes, the resulting node completes after the pending inner sources settle.
+ * @category Operators
+ */
+export function concatMap<I, O>(project: FlatProject<I, O>) {
+  return flatten('concat', project)
+}
+
+/**
+ * Maps each value to a promise or a node. The values that arrive while the previous result is pending are ignored.
+ * Rejected promises are reported through {@link Realm.reportError}. If the realm does not handle them, they are thrown in a separate task.
+ * When the source node completes, the resulting node completes after the pending inner sources settle.
+ * @category Operators
+ */
+export function exhaustMap<I, O>(project: FlatProject<I, O>) {
+  return flatten('exhaust', project)
+}
+
+/**
+ * Emits the values of the source node and of the passed nodes.
+ * If several of the nodes emit in the same computation cycle (e.g. through `pubIn`), the resulting node emits once, with the value of the last one in the argument order.
+ * @example
+ * ```ts
+ * const click$ = Signal<string>()
+ * const key$ = Signal<string>()
+ * const r = new Realm()
+ * r.sub(r.pipe(click$, merge(key$)), console.log)
+ * ```
+ * @category Operators
+ */
+export function merge<I, T1>(...nodes: [NodeRef<T1>]): Operator<I, I | T1> // prettier-ignore
+export function merge<I, T1, T2>(...nodes: [NodeRef<T1>, NodeRef<T2>]): Operator<I, I | T1 | T2> // prettier-ignore
+export function merge<I, T1, T2, T3>(...nodes: [NodeRef<T1>, NodeRef<T2>, NodeRef<T3>]): Operator<I, I | T1 | T2 | T3> // prettier-ignore
+export function merge<I, T1, T2, T3, T4>(...nodes: [NodeRef<T1>, NodeRef<T2>, NodeRef<T3>, NodeRef<T4>]): Operator<I, I | T1 | T2 | T3 | T4> // prettier-ignore
+export function merge<I>(...nodes: NodeRef[]): Operator<I, unknown>
+export function merge<I>(...nodes: NodeRef[]) {
+  return ((source, r) => {
+    const sink = r.signalInstance()
+    for (const node of [source, ...nodes]) {
+      r.connect({
+        map: (done) => (value) => {
+          done(value)
+        },
+        sink,
+        sources: [node],
+      })
+    }
+    return sink
+  }) as Operator<I, unknown>
+}
+
+/**
+ * Combines the values of the source node and the passed nodes by their emission index. The resulting node emits a tuple once each of the nodes has emitted a value that has not been zipped yet.
+ * The values that nodes emit in the same computation cycle are queued together, so the resulting node emits at most once per cycle.
+ * @category Operators
+ */
+export function zip<I, T1>(...nodes: [NodeRef<T1>]): Operator<I, [I, T1]> // prettier-ignore
+export function zip<I, T1, T2>(...nodes: [NodeRef<T1>, NodeRef<T2>]): Operator<I, [I, T1, T2]> // prettier-ignore
+export function zip<I, T1, T2, T3>(...nodes: [NodeRef<T1>, NodeRef<T2>, NodeRef<T3>]): Operator<I, [I, T1, T2, T3]> // prettier-ignore
+export function zip<I, T1, T2, T3, T4>(...nodes: [NodeRef<T1>, NodeRef<T2>, NodeRef<T3>, NodeRef<T4>]): Operator<I, [I, T1, T2, T3, T4]> // prettier-ignore
+export function zip<I>(...nodes: NodeRef[]): Operator<I, unknown[]>
+export function zip<I>(...nodes: NodeRef[]) {
+  return ((source, r) => {
+    const sink = r.signalInstance<unknown[]>()
+    const allNodes = [source, ...nodes]
+    const queues = allNodes.map(() => [] as unknown[])
+    allNodes.forEach((node, index) => {
+      r.connect({
+        map: (done) => (value) => {
+          queues[index].push(value)
+          if (queues.every((queue) => queue.length > 0)) {
+            done(queues.map((queue) => queue.shift()))
+          }
+        },
+        sink,
+        sources: [node],
+      })
+    })
+    return sink
+  }) as Operator<I, unknown[]>
+}
+
+/**
+ * Makes the resulting node a stateful one, with the specified initial value. Useful when the node is combined with other nodes, or its value is read before the source has emitted.
+ * Like with cells, the subscriptions are not called with the initial value.
+ * @category Operators
+ */
+export function startWith<I>(value: I) {
+  return ((source, r) => {
+    const sink = r.cellInstance(value, false)
+    r.link(source, sink)
+    return sink
+  }) as Operator<I, I>
+}
+
+/**
+ * Emits the previous and the current value of the source node as a tuple. Does not emit for the first value.
+ * @category Operators
+ */
+export function pairwise<I>() {
+  return ((source, r) => {
+    const sink = r.signalInstance<[I, I]>()
+    const noValue = Symbol()
+    let previous: I | typeof noValue = noValue
+    r.connect({
+      map: (done) => (value) => {
+        if (previous !== noValue) {
+          done([previous, value])
+        }
+        previous = value as I
+      },
+      sink,
+      sources: [source],
+    })
+    return sink
+  }) as Operator<I, [I, I]>
+}
+
+/**
+ * Combines the latest values of the source node and the passed nodes, and maps them with the projection function. Emits when any of the nodes emit.
+ * Like {@link Realm.combine}, emits once if several of the nodes emit in the same computation cycle.
+ * @example
+ * ```ts
+ * const firstName$ = Cell('John')
+ * const lastName$ = Cell('Doe')
+ * const r = new Realm()
+ * const fullName$ = r.pipe(firstName$, combineMap([lastName$], (first, last) => `${first} ${last}`))
+ * ```
+ * @category Operators
+ */
+export function combineMap<I, T1, O>(nodes: [NodeRef<T1>], project: (value: I, v1: T1) => O): Operator<I, O> // prettier-ignore
+export function combineMap<I, T1, T2, O>(nodes: [NodeRef<T1>, NodeRef<T2>], project: (value: I, v1: T1, v2: T2) => O): Operator<I, O> // prettier-ignore
+export function combineMap<I, T1, T2, T3, O>(
+  nodes: [NodeRef<T1>, NodeRef<T2>, NodeRef<T3>],
+  project: (value: I, v1: T1, v2: T2, v3: T3) => O
+): Operator<I, O> // prettier-ignore
+export function combineMap<I, T1, T2, T3, T4, O>(
+  nodes: [NodeRef<T1>, NodeRef<T2>, NodeRef<T3>, NodeRef<T4>],
+  project: (value: I, v1: T1, v2: T2, v3: T3, v4: T4) => O
+): Operator<I, O> // prettier-ignore
+export function combineMap<I, O>(nodes: NodeRef[], project: (value: I, ...values: unknown[]) => O): Operator<I, O>
+export function combineMap<I, O>(nodes: NodeRef[], project: (value: I, ...values: unknown[]) => O) {
+  return ((source, r) => {
+    const sink = r.signalInstance<O>()
+    r.connect({
+      map:
+        (done) =>
+        (value, ...values) => {
+          done(project(value as I, ...values))
+        },
+      sink,
+      sources: [source, ...nodes],
+    })
+    return sink
+  }) as Operator<I, O>
+}
@@ -7,6 +7,12 @@ import { Realm } from './realm'
  */
 export const RealmContext = React.createContext<Realm | null>(null)
 
+/**
+ * The default id of the script element rendered by {@link RealmStateScript}.
+ * @category React Components
+ */
+export const REALM_STATE_SCRIPT_ID = 'gurx-realm-state'
+
 /**
  * @category React Components
  */
@@ -14,6 +20,8 @@ export function RealmProvider({
   children,
   initWith,
   updateWith = {},
+  inherit = false,
+  hydrateWith,
 }: {
   /**
    * The children to render
@@ -22,18 +30,89 @@ export function RealmProvider({
   /**
    * The initial values to set in the realm
    */
-  initWith?: Record<string, unknown>
+  initWith?: Record<symbol, unknown>
   /**
    * The values to update in the realm on each render
    */
-  updateWith?: Record<string, unknown>
+  updateWith?: Record<symbol, unknown>
+  /**
+   * If true, the realm is created as a child of the realm from the enclosing provider.
+   * The cells registered in the parent realm are shared with the child realm, unless overridden through `initWith`.
+   */
+  inherit?: boolean
+  /**
+   * The named cell values exported from a server-rendered realm, see {@link readRealmState}.
+   * The values are set before the first render, without triggering a re-computation cycle.
+   */
+  hydrateWith?: Record<string, unknown>
 }) {
+  const parentRealm = React.useContext(RealmContext)
   // biome-ignore lint/correctness/useExhaustiveDependencies: run it only once
-  const theRealm = React.useMemo(() => new Realm(initWith), [])
+  const theRealm = React.useMemo(() => {
+    const realm = new Realm(initWith, { parent: inherit ? (parentRealm ?? undefined) : undefined })
+    if (hydrateWith !== undefined) {
+      realm.hydrate(hydrateWith)
+    }
+    return realm
+  }, [])
 
   React.useEffect(() => {
     theRealm.pubIn(updateWith)
   }, [updateWith, theRealm])
 
+  const mounted = React.useRef(false)
+  React.useEffect(() => {
+    mounted.current = true
+    return () => {
+      mounted.current = false
+      // StrictMode unmounts and re-mounts the effects synchronously, so the disposal is postponed until it's certain that the provider is gone.
+      queueMicrotask(() => {
+        if (!mounted.current) {
+          theRealm.dispose()
+        }
+      })
+    }
+  }, [theRealm])
+
   return <RealmContext.Provider value={theRealm}>{children}</RealmContext.Provider>
 }
+
+/**
+ * Serializes the named cell values of the realm into a JSON string that is safe to embed in a script element.
+ * @category React Components
+ */
+export function serializeRealmState(realm: Realm) {
+  return JSON.stringify(realm.exportState())
+    .replace(/</g, '\\u003c')
+    .replace(/>/g, '\\u003e')
+    .replace(/&/g, '\\u0026')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029')
+}
+
+/**
+ * Renders the named cell values of the current realm in a JSON script element.
+ * Place it after the components that use the realm, so that the values they have published during the server render are included.
+ * @category React Components
+ */
+export function RealmStateScript({ id = REALM_STATE_SCRIPT_ID }: { id?: string }) {
+  const realm = React.useContext(RealmContext)
+  if (realm === null) {
+    throw new Error('RealmStateScript must be used within a RealmProvider')
+  }
+  // biome-ignore lint/security/noDangerouslySetInnerHtml: the serialized state is escaped
+  return <script type="application/json" id={id} dangerouslySetInnerHTML={{ __html: serializeRealmState(realm) }} />
+}
+
+/**
+ * Reads the named cell values rendered by {@link RealmStateScript}. Pass the result to the `hydrateWith` prop of the {@link RealmProvider}.
+ * @returns the parsed values, or undefined if the script element is not present.
+ * @category React Components
+ */
+export function readRealmState(id = REALM_STATE_SCRIPT_ID): Record<string, unknown> | undefined {
+  const content = document.getElementById(id)?.textContent
+  if (!content) {
+    return undefined
+  }
+  return JSON.parse(content) as Record<string, unknown>
+}
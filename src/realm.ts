@@ -1,6 +1,8 @@
 import { RefCount } from './RefCount'
 import { SetMap } from './SetMap'
 import type { O } from './operators'
+import { type Scheduler, defaultScheduler } from './scheduler'
+import type { RealmTracer } from './trace'
 import { noop, tap } from './utils'
 
 const CELL_TYPE = 'cell'
@@ -70,21 +72,247 @@ export type Distinct<T> = boolean | Comparator<T>
  */
 export type NodeInit<T> = (r: Realm, node$: NodeRef<T>) => void
 
+/**
+ * The options that can be passed to the node definition functions instead of an init function.
+ * @typeParam T - The type of values that the node emits.
+ * @category Nodes
+ */
+export interface NodeOptions<T> {
+  /**
+   * An optional function that will be called when the node is registered in a realm.
+   */
+  init?: NodeInit<T>
+  /**
+   * The distinct flag or a custom comparator for the node values.
+   */
+  distinct?: Distinct<T>
+  /**
+   * A stable key for the node. The values of named cells can be exported as a plain object through {@link Realm.exportState} and imported back with {@link Realm.importState}.
+   * The name must be unique - defining a second node with the same name throws an error.
+   */
+  name?: string
+  /**
+   * A debug label for the node, reported by {@link Realm.inspect}. Defaults to the name of the node.
+   */
+  label?: string
+}
+
+/**
+ * The value of a {@link Resource} state node.
+ * - `idle` - the resource has not started loading yet.
+ * - `loading` - the loader is running. The `data` field contains the previously loaded data, if any (stale-while-revalidate), and `promise` resolves with the new data.
+ * - `success` - the loader has resolved with the `data`.
+ * - `error` - the loader has rejected with the `error`. The `data` field contains the previously loaded data, if any.
+ * @typeParam T - The type of the loaded data.
+ * @category Nodes
+ */
+export type ResourceState<T> =
+  | { status: 'idle'; data: T | undefined; error: undefined }
+  | { status: 'loading'; data: T | undefined; error: undefined; promise: Promise<T> }
+  | { status: 'success'; data: T; error: undefined }
+  | { status: 'error'; data: T | undefined; error: unknown }
+
+/**
+ * The options accepted by {@link Resource}.
+ * @category Nodes
+ */
+export interface ResourceOptions<T> {
+  /**
+   * The data of the resource before the first load completes.
+   */
+  initialData?: T
+  /**
+   * A stable key for the state node of the resource, see {@link NodeOptions.name}.
+   */
+  name?: string
+  /**
+   * A debug label for the state node of the resource.
+   */
+  label?: string
+}
+
+/**
+ * The nodes of a resource, returned from {@link Resource}.
+ * @category Nodes
+ */
+export interface ResourceNodes<T> {
+  /**
+   * A cell that holds the current state of the resource.
+   */
+  state$: NodeRef<ResourceState<T>>
+  /**
+   * Calls the loader again with the current values of the dependencies.
+   */
+  refetch$: NodeRef<void>
+}
+
 interface CellDefinition<T> {
   type: typeof CELL_TYPE
   distinct: Distinct<T>
   initial: T
   init: NodeInit<T>
+  name?: string
+  label?: string
 }
 
 interface SignalDefinition<T> {
-  type: 'signal'
+  type: 'signal' | 'action'
   distinct: Distinct<T>
   init: NodeInit<T>
+  name?: string
+  label?: string
+}
+
+/**
+ * The kind of a node, as reported by {@link Realm.inspect}.
+ * @category Introspection
+ */
+export type NodeKind = 'cell' | 'signal' | 'action'
+
+/**
+ * A description of a node registered in a realm.
+ * @category Introspection
+ */
+export interface NodeInfo {
+  /**
+   * The node reference.
+   */
+  node: NodeRef
+  /**
+   * The kind of the node. Nodes created with {@link Realm.cellInstance} and {@link Realm.signalInstance} are reported as cells and signals.
+   */
+  kind: NodeKind
+  /**
+   * The debug label of the node, if any.
+   */
+  label: string | undefined
+  /**
+   * The current value of the node. Always undefined for signals and actions.
+   */
+  value: unknown
+  /**
+   * True if the node has a distinct comparator.
+   */
+  distinct: boolean
+  /**
+   * The number of subscriptions to the node, including the singleton one.
+   */
+  subscriberCount: number
+  /**
+   * True if the node is inherited from a parent realm.
+   */
+  inherited: boolean
+}
+
+/**
+ * A description of a connection between nodes in a realm.
+ * @category Introspection
+ */
+export interface ProjectionInfo {
+  /**
+   * The nodes that trigger the connection.
+   */
+  sources: NodeRef[]
+  /**
+   * The nodes which values are pulled when the connection is triggered.
+   */
+  pulls: NodeRef[]
+  /**
+   * The node that receives the result of the connection.
+   */
+  sink: NodeRef
 }
 
+/**
+ * A read-only description of the nodes and the connections in a realm, returned from {@link Realm.inspect}.
+ * @category Introspection
+ */
+export interface RealmInspection {
+  nodes: NodeInfo[]
+  projections: ProjectionInfo[]
+}
+
+/**
+ * The options accepted by the {@link Realm} constructor.
+ */
+export interface RealmOptions {
+  /**
+   * A parent realm. Cells and signals that are already registered in the parent (or in one of its ancestors) are inherited instead of being instantiated again.
+   * Publishing into an inherited node publishes into the realm that owns it, and the subscribers of both realms are notified.
+   * To override an inherited cell in the child realm, pass a value for it in the initial values of the child realm.
+   */
+  parent?: Realm
+  /**
+   * A function that receives structured events for each computation cycle of the realm. Useful for debugging, see {@link createTraceRecorder}.
+   */
+  tracer?: RealmTracer
+  /**
+   * Determines how the errors thrown by subscriptions and connection map functions during a computation cycle are handled.
+   * - `throw` (default) - the error aborts the computation cycle and is thrown from the publishing call.
+   * - `continue` - the error is reported and the computation continues. A node which map function throws does not emit in the cycle.
+   * - `rollback` - the error is reported, the computation stops, and the cell values changed during the cycle are reverted.
+   *   The values published by the subscriptions are held back until all subscriptions of the cycle have run, and are discarded if one of them throws.
+   *   The other side effects of the subscriptions that ran before the failing one are not reverted.
+   *
+   * The caught errors are reported through the `onError` option and the {@link Realm.error$} signal. If none of those is present, the first error is re-thrown after the cycle.
+   */
+  errorPolicy?: ErrorPolicy
+  /**
+   * Called with each error caught by the `continue` and `rollback` error policies.
+   */
+  onError?: (event: RealmErrorEvent) => void
+  /**
+   * Determines when the values published by subscriptions are propagated.
+   * - `sync` (default) - publishing from a subscription starts a nested computation cycle right away, before the remaining subscribers are notified.
+   * - `deferred` - the values published while the realm is computing are queued and propagated in FIFO order after the current cycle completes,
+   * so that each subscriber of a cycle sees the values committed by that cycle.
+   */
+  notifications?: NotificationMode
+  /**
+   * The scheduler used by the time-based operators of the realm. Defaults to the scheduler of the parent realm, or to {@link defaultScheduler}.
+   * Pass a {@link VirtualScheduler} to control the time in tests.
+   */
+  scheduler?: Scheduler
+}
+
+/**
+ * The notification mode of a realm, see {@link RealmOptions.notifications}.
+ */
+export type NotificationMode = 'sync' | 'deferred'
+
+/**
+ * The error handling policy of a realm, see {@link RealmOptions.errorPolicy}.
+ */
+export type ErrorPolicy = 'throw' | 'continue' | 'rollback'
+
+/**
+ * Describes an error caught during a computation cycle of a realm.
+ */
+export interface RealmErrorEvent {
+  /**
+   * The thrown error.
+   */
+  error: unknown
+  /**
+   * The node which subscription or connection has thrown the error.
+   */
+  node: NodeRef
+  /**
+   * Whether the error was thrown by a connection map function or by a subscription.
+   */
+  source: 'projection' | 'subscription'
+}
+
+const snapshotValues = Symbol('snapshotValues')
+
+/**
+ * An opaque, immutable snapshot of the cell values in a realm. Create one with {@link Realm.snapshot} and apply it with {@link Realm.restore}.
+ */
+export type RealmSnapshot = { readonly [snapshotValues]: ReadonlyMap<symbol, unknown> }
+
 // biome-ignore lint/suspicious/noExplicitAny: I know why we need any here
 const nodeDefs$$ = new Map<symbol, CellDefinition<any> | SignalDefinition<any>>()
+const nodeNames$$ = new Map<string, symbol>()
 let currentRealm$$: Realm | undefined = undefined
 
 /**
@@ -99,13 +327,55 @@ export class Realm {
   private readonly distinctNodes = new Map<symbol, Comparator<unknown>>()
   private readonly executionMaps = new Map<symbol | symbol[], ExecutionMap>()
   private readonly definitionRegistry = new Set<symbol>()
+  private readonly cleanups = new Set<() => void>()
+  private readonly inheritedNodes = new Map<symbol, Realm>()
+  private readonly namedNodes = new Map<string, symbol>()
+  private readonly labels = new Map<symbol, string>()
+  private readonly traceIds = new Map<symbol, string>()
+  private readonly teardowns = new Map<symbol, UnsubscribeHandle>()
+  private tracer: RealmTracer | undefined
+  private cycle = 0
+  private readonly errorPolicy: ErrorPolicy
+  private readonly onError: ((event: RealmErrorEvent) => void) | undefined
+
+  /**
+   * A signal that emits the errors caught by the `continue` and `rollback` error policies of the realm. See {@link RealmOptions.errorPolicy}.
+   * Errors thrown by the subscriptions of this signal are not caught.
+   */
+  readonly error$: NodeRef<RealmErrorEvent>
+  private readonly parent: Realm | undefined
+  private disposed = false
+  private pendingTransaction: Record<symbol, unknown>[] | undefined
+  private readonly notifications: NotificationMode
+  private publishQueue: Record<symbol, unknown>[] | undefined
+  private readonly completedNodes = new Set<symbol>()
+  private readonly completionHandlers = new SetMap<() => void>()
+  private readonly pendingCompletions: { node: symbol; release: boolean }[] = []
+  private cycleDepth = 0
+  private scopeCollector: UnsubscribeHandle[] | undefined
+
+  /**
+   * The scheduler of the realm, see {@link RealmOptions.scheduler}. Use it instead of the global timer functions when building time-based operators.
+   */
+  readonly scheduler: Scheduler
 
   /**
    * Creates a new realm.
    * @param initialValues - the initial cell values that will populate the realm.
    * Those values will not trigger a recomputation cycle, and will overwrite the initial values specified for each cell.
+   * @param options - additional realm options, see {@link RealmOptions}.
    */
-  constructor(initialValues: Record<symbol, unknown> = {}) {
+  constructor(
+    initialValues: Record<symbol, unknown> = {},
+    { parent, tracer, errorPolicy = 'throw', onError, notifications = 'sync', scheduler }: RealmOptions = {}
+  ) {
+    this.parent = parent
+    this.scheduler = scheduler ?? parent?.scheduler ?? defaultScheduler
+    this.notifications = notifications
+    this.tracer = tracer
+    this.errorPolicy = errorPolicy
+    this.onError = onError
+    this.error$ = this.signalInstance<RealmErrorEvent>(false)
     for (const id of Object.getOwnPropertySymbols(initialValues)) {
       this.state.set(id, initialValues[id])
     }
@@ -121,6 +391,7 @@ export class Realm {
   cellInstance<T>(value: T, distinct: Distinct<T> = true, node = Symbol()): NodeRef<T> {
     if (!this.state.has(node)) {
       this.state.set(node, value)
+      this.collectInstance(node)
     }
     if (distinct !== false && !this.distinctNodes.has(node)) {
       this.distinctNodes.set(node, distinct === true ? defaultComparator : (distinct as Comparator<unknown>))
@@ -139,9 +410,18 @@ export class Realm {
     if (distinct !== false) {
       this.distinctNodes.set(node, distinct === true ? defaultComparator : (distinct as Comparator<unknown>))
     }
+    this.collectInstance(node)
     return node as NodeRef<T>
   }
 
+  private collectInstance(node: symbol) {
+    if (this.scopeCollector !== undefined && !nodeDefs$$.has(node)) {
+      this.scopeCollector.push(() => {
+        this.release(node as NodeRef)
+      })
+    }
+  }
+
   /**
    * Subscribes to the values published in the referred node.
    * @param node - the cell/signal to subscribe to.
@@ -162,7 +442,7 @@ export class Realm {
     this.register(node)
     const nodeSubscriptions = this.subscriptions.getOrCreate(node)
     nodeSubscriptions.add(subscription as Subscription<unknown>)
-    return () => nodeSubscriptions.delete(subscription as Subscription<unknown>)
+    return this.collect(() => nodeSubscriptions.delete(subscription as Subscription<unknown>))
   }
 
   /**
@@ -189,7 +469,7 @@ export class Realm {
     } else {
       this.singletonSubscriptions.set(node, subscription as Subscription<unknown>)
     }
-    return () => this.singletonSubscriptions.delete(node)
+    return this.collect(() => this.singletonSubscriptions.delete(node))
   }
 
   /**
@@ -246,7 +526,7 @@ export class Realm {
   // biome-ignore lint/suspicious/noExplicitAny: I know why we need any here
   subMultiple(nodes: NodeRef[], subscription: Subscription<any>): UnsubscribeHandle {
     const sink = this.signalInstance()
-    this.connect({
+    const disconnect = this.connect({
       map:
         (done) =>
         (...args) => {
@@ -255,7 +535,11 @@ export class Realm {
       sink,
       sources: nodes,
     })
-    return this.sub(sink, subscription)
+    const unsub = this.sub(sink, subscription)
+    return () => {
+      unsub()
+      disconnect()
+    }
   }
 
   /**
@@ -272,11 +556,165 @@ export class Realm {
    * ```
    */
   pubIn(values: Record<symbol, unknown>) {
+    if (this.disposed) {
+      throw new Error('Cannot publish into a disposed realm')
+    }
+    if (this.pendingTransaction !== undefined) {
+      this.addTransactionValues(this.pendingTransaction, values)
+      return
+    }
+    if (this.notifications === 'sync') {
+      this.publish(values)
+      return
+    }
+    if (this.publishQueue !== undefined) {
+      this.publishQueue.push(values)
+      return
+    }
+    const queue = [values]
+    this.publishQueue = queue
+    try {
+      for (let next = queue.shift(); next !== undefined; next = queue.shift()) {
+        this.publish(next)
+      }
+    } finally {
+      this.publishQueue = undefined
+    }
+  }
+
+  private publish(values: Record<symbol, unknown>) {
+    const localValues: Record<symbol, unknown> = {}
+    const inheritedValues = new Map<Realm, Record<symbol, unknown>>()
+    let skipped = false
+    for (const id of Reflect.ownKeys(values) as symbol[]) {
+      if (this.completedNodes.has(id)) {
+        skipped = true
+        continue
+      }
+      this.register(id as NodeRef)
+      const owner = this.inheritedNodes.get(id)
+      if (owner === undefined) {
+        localValues[id] = values[id]
+      } else {
+        const ownerValues = inheritedValues.get(owner) ?? {}
+        ownerValues[id] = values[id]
+        inheritedValues.set(owner, ownerValues)
+      }
+    }
+
+    for (const [owner, ownerValues] of inheritedValues) {
+      owner.pubIn(ownerValues)
+    }
+
+    if ((inheritedValues.size === 0 && !skipped) || Reflect.ownKeys(localValues).length > 0) {
+      this.propagate(localValues)
+    }
+  }
+
+  /**
+   * Runs the function and merges the values published within it into a single re-computation cycle, executed after the function returns.
+   * The subscribers are notified once, after the new values are committed. If the function throws, the published values are discarded.
+   * Nested transactions are merged into the outer one.
+   * A cell published multiple times within the transaction takes its last value. A stateless node (signal or action) published multiple times
+   * splits the transaction into consecutive cycles, so that each of its values is delivered in order.
+   * @returns the return value of the function.
+   *
+   * @example
+   * ```ts
+   * const foo$ = Cell('foo')
+   * const bar$ = Cell('bar')
+   *
+   * const r = new Realm()
+   * r.transaction(() => {
+   *   r.pub(foo$, 'foo1')
+   *   r.pub(bar$, 'bar1')
+   * })
+   * ```
+   */
+  transaction<T>(fn: () => T): T {
+    if (this.pendingTransaction !== undefined) {
+      return fn()
+    }
+    const batches: Record<symbol, unknown>[] = []
+    this.pendingTransaction = batches
+    let result: T
+    try {
+      result = fn()
+    } finally {
+      this.pendingTransaction = undefined
+    }
+    for (const values of batches) {
+      this.pubIn(values)
+    }
+    return result
+  }
+
+  private addTransactionValues(batches: Record<symbol, unknown>[], values: Record<symbol, unknown>) {
+    const batch = batches[batches.length - 1]
+    const ids = Reflect.ownKeys(values) as symbol[]
+    // merging a second value of a stateless node would lose the first one, so it goes into the next cycle.
+    if (batch === undefined || ids.some((id) => Object.prototype.hasOwnProperty.call(batch, id) && !this.isStateful(id))) {
+      batches.push({ ...values })
+    } else {
+      Object.assign(batch, values)
+    }
+  }
+
+  private isStateful(node: symbol) {
+    this.register(node as NodeRef)
+    return (this.inheritedNodes.get(node) ?? this).state.has(node)
+  }
+
+  private propagate(values: Record<symbol, unknown>) {
+    this.cycleDepth++
+    try {
+      this.runCycle(values)
+    } finally {
+      this.cycleDepth--
+    }
+    if (this.cycleDepth === 0) {
+      for (let next = this.pendingCompletions.shift(); next !== undefined; next = this.pendingCompletions.shift()) {
+        this.completeNode(next.node, next.release)
+      }
+    }
+  }
+
+  private runCycle(values: Record<symbol, unknown>) {
     const ids = Reflect.ownKeys(values) as symbol[]
+    const tracer = this.tracer
+    const cycle = ++this.cycle
+    tracer?.({ type: 'cycleStart', cycle, values: ids.map((id) => ({ node: this.traceId(id), value: values[id] })) })
     const map = this.getExecutionMap(ids)
     const refCount = map.refCount.clone()
     const participatingNodeKeys = map.participatingNodes.slice()
     const transientState = new Map<symbol, unknown>(this.state)
+    const forwardedValues = new Map<Realm, Record<symbol, unknown>>()
+    const emittedNodes = new Set<symbol>()
+    const errors: RealmErrorEvent[] = []
+    const rollbackOnError = this.errorPolicy === 'rollback'
+
+    // runs the function, catching its errors unless the policy says otherwise. Returns false if the function has thrown.
+    const guard = (node: symbol, source: RealmErrorEvent['source'], fn: () => void) => {
+      if (this.errorPolicy === 'throw' || node === this.error$) {
+        fn()
+        return true
+      }
+      try {
+        fn()
+        return true
+      } catch (error) {
+        errors.push({ error, node: node as NodeRef, source })
+        tracer?.({ type: 'error', cycle, node: this.traceId(node), source })
+        return false
+      }
+    }
+
+    const readTransient = (id: symbol) => {
+      if (transientState.has(id)) {
+        return transientState.get(id)
+      }
+      return this.inheritedNodes.get(id)?.getValue(id as NodeRef)
+    }
 
     const nodeWillNotEmit = (key: symbol) => {
       this.graph.use(key, (projections) => {
@@ -284,6 +722,7 @@ export class Realm {
           if (sources.has(key)) {
             refCount.decrement(sink, () => {
               participatingNodeKeys.splice(participatingNodeKeys.indexOf(sink), 1)
+              tracer?.({ type: 'nodeCancelled', cycle, node: this.traceId(sink) })
               nodeWillNotEmit(sink)
             })
           }
@@ -291,7 +730,8 @@ export class Realm {
       })
     }
 
-    while (true) {
+    // resolve the values of the participating nodes, without touching the realm state.
+    while (!(rollbackOnError && errors.length > 0)) {
       const nextId = participatingNodeKeys.shift()
       if (nextId === undefined) {
         break
@@ -299,47 +739,142 @@ export class Realm {
       const id = nextId
       let resolved = false
       const done = (value: unknown) => {
+        if (this.completedNodes.has(id)) {
+          return
+        }
+        const owner = this.inheritedNodes.get(id)
+        // values that come from local projections into inherited nodes are published in the owner realm, which will push them back.
+        if (owner !== undefined && !Object.prototype.hasOwnProperty.call(values, id)) {
+          const ownerValues = forwardedValues.get(owner) ?? {}
+          ownerValues[id] = value
+          forwardedValues.set(owner, ownerValues)
+          return
+        }
         const dnRef = this.distinctNodes.get(id)
         if (dnRef?.(transientState.get(id), value)) {
+          tracer?.({ type: 'distinctSuppressed', cycle, node: this.traceId(id), comparator: dnRef.name || 'anonymous', value })
           resolved = false
           return
         }
         resolved = true
         transientState.set(id, value)
-        if (this.state.has(id)) {
-          this.state.set(id, value)
-        }
       }
       if (Object.prototype.hasOwnProperty.call(values, id)) {
         done(values[id])
       } else {
         map.projections.use(id, (nodeProjections) => {
           for (const projection of nodeProjections) {
-            const args = [...Array.from(projection.sources), ...Array.from(projection.pulls)].map((id) => transientState.get(id))
-            projection.map(done)(...args)
+            // a node can have several projections, e.g. from merged nodes. Only the ones with emitting sources are executed.
+            if (!Array.from(projection.sources).some((source) => emittedNodes.has(source))) {
+              continue
+            }
+            const args = [...Array.from(projection.sources), ...Array.from(projection.pulls)].map(readTransient)
+            if (!guard(id, 'projection', () => projection.map(done)(...args))) {
+              resolved = false
+              break
+            }
           }
         })
       }
 
       if (resolved) {
-        const value = transientState.get(id)
-        this.inContext(() => {
-          this.subscriptions.use(id, (nodeSubscriptions) => {
-            for (const subscription of nodeSubscriptions) {
-              subscription(value)
-            }
-          })
-        })
-        this.singletonSubscriptions.get(id)?.(value)
+        tracer?.({ type: 'nodeResolved', cycle, node: this.traceId(id), value: transientState.get(id) })
+        emittedNodes.add(id)
       } else {
+        tracer?.({ type: 'nodeCancelled', cycle, node: this.traceId(id) })
         nodeWillNotEmit(id)
       }
     }
+
+    if (rollbackOnError && errors.length > 0) {
+      tracer?.({ type: 'cycleEnd', cycle })
+      this.reportErrors(errors)
+      return
+    }
+
+    // commit the cell values
+    const previousState = new Map<symbol, unknown>()
+    for (const id of emittedNodes) {
+      if (this.state.has(id)) {
+        previousState.set(id, this.state.get(id))
+        this.state.set(id, transientState.get(id))
+      }
+    }
+
+    // notify the subscribers. With the rollback policy, their publishes are held back like in a transaction, so that they can be discarded.
+    const heldPublishes: Record<symbol, unknown>[] | undefined = rollbackOnError ? [] : undefined
+    if (heldPublishes !== undefined) {
+      this.pendingTransaction = heldPublishes
+    }
+    try {
+      this.inContext(() => {
+        for (const id of emittedNodes) {
+          const value = transientState.get(id)
+          const singletonSubscription = this.singletonSubscriptions.get(id)
+          const nodeSubscriptions = [
+            ...(this.subscriptions.get(id) ?? []),
+            ...(singletonSubscription !== undefined ? [singletonSubscription] : []),
+          ]
+          for (const subscription of nodeSubscriptions) {
+            if (rollbackOnError && errors.length > 0) {
+              return
+            }
+            tracer?.({ type: 'subscription', cycle, node: this.traceId(id), subscription: subscription.name || 'anonymous' })
+            guard(id, 'subscription', () => subscription(value))
+          }
+        }
+      })
+    } finally {
+      if (heldPublishes !== undefined) {
+        this.pendingTransaction = undefined
+      }
+    }
+
+    if (rollbackOnError && errors.length > 0) {
+      for (const [id, value] of previousState) {
+        this.state.set(id, value)
+      }
+      forwardedValues.clear()
+    }
+
+    tracer?.({ type: 'cycleEnd', cycle })
+
+    for (const [owner, ownerValues] of forwardedValues) {
+      owner.pubIn(ownerValues)
+    }
+
+    if (errors.length > 0) {
+      this.reportErrors(errors)
+    } else if (heldPublishes !== undefined) {
+      for (const held of heldPublishes) {
+        this.pubIn(held)
+      }
+    }
+  }
+
+  /**
+   * Reports an error caught outside of a computation cycle, like the rejection of a promise in an asynchronous operator.
+   * The error is passed to the `onError` option and published into {@link Realm.error$}. If none of those is present, the error is thrown.
+   */
+  reportError(event: RealmErrorEvent) {
+    this.reportErrors([event])
+  }
+
+  private reportErrors(errors: RealmErrorEvent[]) {
+    const hasErrorSubscriptions = (this.subscriptions.get(this.error$)?.size ?? 0) > 0 || this.singletonSubscriptions.has(this.error$)
+    if (this.onError === undefined && !hasErrorSubscriptions) {
+      throw errors[0].error
+    }
+    for (const event of errors) {
+      this.onError?.(event)
+      this.pub(this.error$, event)
+    }
   }
 
   /**
    * A low-level utility that connects multiple nodes to a sink node with a map function. Used as a foundation for the higher-level operators.
    * The nodes can be active (sources) or passive (pulls).
+   * @returns a function that, when called, will remove the connection from the realm. A sink created with {@link Realm.cellInstance} or {@link Realm.signalInstance} that is left without connections is released (see {@link Realm.release}).
    */
   connect<T extends unknown[] = unknown[]>({
     sources,
@@ -363,7 +898,7 @@ export class Realm {
      * The projection function that will be called when any of the source nodes emits.
      */
     map: ProjectionFunc<T>
-  }) {
+  }): UnsubscribeHandle {
     const dependency: RealmProjection<T> = {
       map,
       pulls: new Set(pulls),
@@ -377,6 +912,161 @@ export class Realm {
     }
 
     this.executionMaps.clear()
+
+    return this.collect(() => {
+      this.detach(dependency as RealmProjection)
+      if (!nodeDefs$$.has(sink) && !this.hasConnections(sink)) {
+        this.release(sink)
+      }
+    })
+  }
+
+  private detach(projection: RealmProjection) {
+    for (const node of [...projection.sources, ...projection.pulls]) {
+      this.graph.use(node, (projections) => {
+        projections.delete(projection)
+        if (projections.size === 0) {
+          this.graph.delete(node)
+        }
+      })
+    }
+    this.executionMaps.clear()
+  }
+
+  /**
+   * Marks the node as completed: it will not emit any more values. Publishing into a completed node has no effect.
+   * The completion handlers of the node, registered through {@link Realm.onComplete}, are called, and its subscriptions are removed.
+   * The connections which sources have all completed are detached, and the completion propagates to the nodes created by operators that are no longer connected to any source.
+   * Nodes defined with {@link Cell}, {@link Signal} and {@link Action} complete only when completed explicitly.
+   *
+   * If called during a computation cycle, the node is completed after the cycle finishes.
+   * @example
+   * ```ts
+   * const foo$ = Signal<number>()
+   * const r = new Realm()
+   * r.onComplete(foo$, () => console.log('done'))
+   * r.complete(foo$) // logs 'done'
+   * ```
+   */
+  complete(node: NodeRef) {
+    this.register(node)
+    if (this.cycleDepth > 0) {
+      this.pendingCompletions.push({ node, release: false })
+    } else {
+      this.completeNode(node)
+    }
+  }
+
+  /**
+   * Completes a node created with {@link Realm.cellInstance} or {@link Realm.signalInstance}, and removes it from the realm, including its value and its remaining connections.
+   * The operator nodes that complete along with it are removed as well. Releasing a node created by {@link Realm.pipe} or {@link Realm.transformer} also removes the nodes, subscriptions and timers of its operators.
+   * Reading the value of a released cell returns `undefined`.
+   *
+   * If called during a computation cycle, the node is released after the cycle finishes.
+   */
+  release(node: NodeRef) {
+    if (nodeDefs$$.has(node)) {
+      throw new Error('Only the nodes created with cellInstance and signalInstance can be released')
+    }
+    if (this.cycleDepth > 0) {
+      this.pendingCompletions.push({ node, release: true })
+    } else {
+      this.completeNode(node, true)
+    }
+  }
+
+  /**
+   * Registers a function that will be called when the node completes. If the node has completed already, the function is called immediately.
+   * @returns a function that, when called, will remove the handler.
+   */
+  onComplete(node: NodeRef, handler: () => void): UnsubscribeHandle {
+    this.register(node)
+    if (this.completedNodes.has(node)) {
+      handler()
+      return noop
+    }
+    const handlers = this.completionHandlers.getOrCreate(node)
+    handlers.add(handler)
+    return () => handlers.delete(handler)
+  }
+
+  /**
+   * True if the node has been completed through {@link Realm.complete}, or its sources have completed.
+   */
+  isCompleted(node: NodeRef) {
+    return this.completedNodes.has(node)
+  }
+
+  private completeNode(node: symbol, release = false) {
+    if (this.completedNodes.has(node)) {
+      if (release) {
+        this.forgetNode(node)
+      }
+      return
+    }
+    this.completedNodes.add(node)
+    const handlers = this.completionHandlers.get(node)
+    this.completionHandlers.delete(node)
+    if (handlers !== undefined) {
+      this.inContext(() => {
+        for (const handler of handlers) {
+          handler()
+        }
+      })
+    }
+    this.subscriptions.delete(node)
+    this.singletonSubscriptions.delete(node)
+
+    const sinks = new Set<symbol>()
+    this.graph.use(node, (projections) => {
+      for (const projection of Array.from(projections)) {
+        if (Array.from(projection.sources).every((source) => this.completedNodes.has(source))) {
+          this.detach(projection)
+          sinks.add(projection.sink)
+        }
+      }
+    })
+
+    for (const sink of sinks) {
+      if (!nodeDefs$$.has(sink) && !this.hasConnections(sink)) {
+        this.completeNode(sink, release)
+      }
+    }
+
+    if (release) {
+      this.forgetNode(node)
+    }
+  }
+
+  private forgetNode(node: symbol) {
+    const teardown = this.teardowns.get(node)
+    if (teardown !== undefined) {
+      this.teardowns.delete(node)
+      teardown()
+    }
+    for (const projections of Array.from(this.graph.map.values())) {
+      for (const projection of Array.from(projections)) {
+        if (projection.sink === node || projection.sources.has(node) || projection.pulls.has(node)) {
+          this.detach(projection)
+        }
+      }
+    }
+    this.state.delete(node)
+    this.distinctNodes.delete(node)
+    this.completedNodes.delete(node)
+    this.labels.delete(node)
+    this.traceIds.delete(node)
+  }
+
+  private hasConnections(sink: symbol) {
+    for (const projections of this.graph.map.values()) {
+      for (const projection of projections) {
+        if (projection.sink === sink) {
+          return true
+        }
+      }
+    }
+    return false
   }
 
   /**
@@ -406,6 +1096,7 @@ export class Realm {
 
   /**
    * Creates a new node that emits the values of the source node transformed through the specified operators.
+   * The pipeline, including the nodes, subscriptions and timers of its operators, stays in the realm until the resulting node is released through {@link Realm.release}, or the realm is disposed.
    * @example
    * ```ts
    * const signal$ = Signal<number>(true, (r) => {
@@ -436,12 +1127,20 @@ export class Realm {
   ): NodeRef<O9> // prettier-ignore
   pipe<T>(source: NodeRef<T>, ...operators: O<unknown, unknown>[]): NodeRef
   pipe<T>(source: NodeRef<T>, ...operators: O<unknown, unknown>[]): NodeRef {
-    return this.combineOperators(...operators)(source)
+    let sink: NodeRef = source
+    const teardown = this.scope(() => {
+      sink = this.combineOperators(...operators)(source)
+    })
+    if (sink !== source && !nodeDefs$$.has(sink)) {
+      this.teardowns.set(sink, teardown)
+    }
+    return sink
   }
 
   /**
    * Works as a reverse pipe.
    * Constructs a function, that, when passed a certain node (sink), will create a node that will work as a publisher through the specified pipes into the sink.
+   * The created pipes stay in the realm until the node returned by the function is released through {@link Realm.release}, or the realm is disposed.
    * @example
    * ```ts
    * const foo$ = Cell('foo')
@@ -471,17 +1170,22 @@ export class Realm {
   transformer<In, Out>(...operators: O<unknown, unknown>[]): (s: NodeRef<Out>) => NodeRef<In> {
     return (sink: NodeRef<Out>) => {
       return tap(this.signalInstance<In>(), (source) => {
-        this.link(this.pipe(source, ...operators), sink)
-        return source
+        this.teardowns.set(
+          source,
+          this.scope(() => {
+            this.link(this.pipe(source, ...operators), sink)
+          })
+        )
       })
     }
   }
 
   /**
    * Links the output of a node to the input of another node.
+   * @returns a function that, when called, will remove the link.
    */
-  link<T>(source: NodeRef<T>, sink: NodeRef<T>) {
-    this.connect({
+  link<T>(source: NodeRef<T>, sink: NodeRef<T>): UnsubscribeHandle {
+    return this.connect({
       map: (done) => (value) => {
         done(value)
       },
@@ -494,6 +1198,7 @@ export class Realm {
    * Combines the values from multiple nodes into a single node that emits an array of the latest values of the nodes.
    *
    * When one of the source nodes emits a value, the combined node emits an array of the latest values from each node.
+   * The connection stays in the realm until the resulting node is released through {@link Realm.release}, or the realm is disposed.
    */
   combine<T1>(...nodes: [NodeRef<T1>]): NodeRef<T1> // prettier-ignore
   combine<T1, T2>(...nodes: [NodeRef<T1>, NodeRef<T2>]): NodeRef<[T1, T2]> // prettier-ignore
@@ -713,6 +1418,7 @@ export class Realm {
 
   /**
    * Combines the values from multiple nodes into a cell that's an array of the latest values of the nodes.
+   * The connection stays in the realm until the resulting node is released through {@link Realm.release}, or the realm is disposed.
    */
   combineCells<T1>(...nodes: [NodeRef<T1>]): NodeRef<[T1]> // prettier-ignore
   combineCells<T1, T2>(...nodes: [NodeRef<T1>, NodeRef<T2>]): NodeRef<[T1, T2]> // prettier-ignore
@@ -1005,9 +1711,88 @@ export class Realm {
    */
   getValue<T>(node: NodeRef<T>): T {
     this.register(node)
+    const owner = this.inheritedNodes.get(node)
+    if (owner !== undefined) {
+      return owner.getValue(node)
+    }
     return this.state.get(node) as T
   }
 
+  /**
+   * Captures the current values of all cells in the realm.
+   * @returns an opaque snapshot that can be passed to {@link Realm.restore}.
+   * @example
+   * ```ts
+   * const foo$ = Cell('foo')
+   * const r = new Realm()
+   * const snapshot = r.snapshot()
+   * r.pub(foo$, 'bar')
+   * r.restore(snapshot)
+   * r.getValue(foo$) // 'foo'
+   * ```
+   */
+  snapshot(): RealmSnapshot {
+    return Object.freeze({ [snapshotValues]: new Map(this.state) })
+  }
+
+  /**
+   * Publishes the cell values captured in the snapshot back into the realm, triggering a single re-computation cycle.
+   * Distinct cells that still hold the captured values will not emit. Cells registered after the snapshot was taken are not affected.
+   */
+  restore(snapshot: RealmSnapshot) {
+    this.pubIn(Object.fromEntries(snapshot[snapshotValues]))
+  }
+
+  /**
+   * Exports the values of the named cells registered in the realm as a plain object, suitable for JSON serialization.
+   * @example
+   * ```ts
+   * const count$ = Cell(0, { name: 'count' })
+   * const r = new Realm()
+   * r.pub(count$, 1)
+   * JSON.stringify(r.exportState()) // '{"count":1}'
+   * ```
+   */
+  exportState(): Record<string, unknown> {
+    const result: Record<string, unknown> = {}
+    for (const [name, node] of this.namedNodes) {
+      if (this.state.has(node)) {
+        result[name] = this.state.get(node)
+      }
+    }
+    return result
+  }
+
+  /**
+   * Publishes the values of a plain object, produced by {@link Realm.exportState}, into the named cells, triggering a single re-computation cycle.
+   * Throws an error if any of the keys does not match a named node.
+   */
+  importState(values: Record<string, unknown>) {
+    const nodeValues: Record<symbol, unknown> = {}
+    for (const [name, value] of Object.entries(values)) {
+      const node = this.namedNodes.get(name) ?? nodeNames$$.get(name)
+      if (node === undefined) {
+        throw new Error(`There is no node with the name "${name}"`)
+      }
+      nodeValues[node] = value
+    }
+    this.pubIn(nodeValues)
+  }
+
+  /**
+   * Sets the values of the named cells from a plain object, produced by {@link Realm.exportState}, without triggering a re-computation cycle.
+   * Meant for hydrating a fresh realm with the state of a server-rendered one, before anything subscribes to it.
+   * Keys that do not match a named node are ignored.
+   */
+  hydrate(values: Record<string, unknown>) {
+    for (const [name, value] of Object.entries(values)) {
+      const node = this.namedNodes.get(name) ?? nodeNames$$.get(name)
+      if (node !== undefined) {
+        this.state.set(node, value)
+      }
+    }
+  }
+
   /**
    * Gets the current values of the specified nodes. Works just like {@link getValue}, but with an array of node references.
    */
@@ -1108,27 +1893,216 @@ export class Realm {
     }
 
     if (!this.definitionRegistry.has(node)) {
-      this.definitionRegistry.add(node)
-      return tap(
-        definition.type === CELL_TYPE
-          ? this.cellInstance(definition.initial, definition.distinct, node)
-          : this.signalInstance(definition.distinct, node),
-        (node$) => {
-          this.inContext(() => {
-            definition.init(this, node$)
-          })
-        }
-      )
+      // the subscriptions and connections of node definitions belong to the realm, not to the scope that has registered the node.
+      const scopeCollector = this.scopeCollector
+      this.scopeCollector = undefined
+      try {
+        this.registerDefinition(node, definition)
+      } finally {
+        this.scopeCollector = scopeCollector
+      }
     }
     return node
   }
 
+  private registerDefinition(node: NodeRef, definition: CellDefinition<unknown> | SignalDefinition<unknown>) {
+    this.definitionRegistry.add(node)
+    // cells with initial values in this realm override the ones from the parent realm.
+    const owner = this.state.has(node) ? undefined : this.parent?.ownerOf(node)
+    if (owner !== undefined) {
+      this.inheritedNodes.set(node, owner)
+      this.onDispose(
+        owner.sub(node, (value) => {
+          this.propagate({ [node]: value })
+        })
+      )
+      return
+    }
+    if (definition.name !== undefined) {
+      this.namedNodes.set(definition.name, node)
+    }
+    tap(
+      definition.type === CELL_TYPE
+        ? this.cellInstance(definition.initial, definition.distinct, node)
+        : this.signalInstance(definition.distinct, node),
+      (node$) => {
+        this.inContext(() => {
+          definition.init(this, node$)
+        })
+      }
+    )
+  }
+
+  /**
+   * Registers a function that will be called when the realm is disposed.
+   * Use it in node init functions and operators to cancel pending timers, abort requests, or release other resources.
+   * @returns a function that, when called, will remove the cleanup function.
+   * @example
+   * ```ts
+   * const tick$ = Signal<number>((r) => {
+   *   const interval = setInterval(() => r.pub(tick$, Date.now()), 1000)
+   *   r.onDispose(() => clearInterval(interval))
+   * })
+   * ```
+   */
+  onDispose(cleanup: () => void): UnsubscribeHandle {
+    this.cleanups.add(cleanup)
+    this.scopeCollector?.push(() => {
+      if (this.cleanups.delete(cleanup)) {
+        cleanup()
+      }
+    })
+    return () => this.cleanups.delete(cleanup)
+  }
+
+  /**
+   * Runs the function and collects the subscriptions, connections, node instances and cleanup functions it creates in the realm.
+   * Calling the returned function removes the collected subscriptions and connections, releases the node instances (see {@link Realm.release}), and runs the collected cleanup functions.
+   * The subscriptions and connections created by the init functions of the node definitions registered while running the function are not collected.
+   * @returns a function that, when called, will dispose the scope.
+   * @example
+   * ```ts
+   * const r = new Realm()
+   * const dispose = r.scope(() => {
+   *   r.link(r.pipe(foo$, map((value) => value * 2)), bar$)
+   *   r.sub(bar$, console.log)
+   * })
+   * // later
+   * dispose()
+   * ```
+   */
+  scope(fn: () => void): UnsubscribeHandle {
+    const outerCollector = this.scopeCollector
+    const collector: UnsubscribeHandle[] = []
+    const dispose = () => {
+      for (const handle of collector.splice(0).reverse()) {
+        handle()
+      }
+    }
+    this.scopeCollector = collector
+    try {
+      fn()
+    } catch (error) {
+      this.scopeCollector = outerCollector
+      dispose()
+      throw error
+    } finally {
+      this.scopeCollector = outerCollector
+    }
+    return this.collect(dispose)
+  }
+
+  private collect(handle: UnsubscribeHandle): UnsubscribeHandle {
+    this.scopeCollector?.push(handle)
+    return handle
+  }
+
+  /**
+   * Disposes the realm. Runs the cleanup functions registered through {@link Realm.onDispose} and removes all subscriptions and connections.
+   * Publishing into a disposed realm throws an error.
+   */
+  dispose() {
+    if (this.disposed) {
+      return
+    }
+    this.disposed = true
+    for (const cleanup of this.cleanups) {
+      cleanup()
+    }
+    this.cleanups.clear()
+    this.subscriptions.clear()
+    this.singletonSubscriptions.clear()
+    this.graph.clear()
+    this.executionMaps.clear()
+    this.completionHandlers.clear()
+    this.pendingCompletions.length = 0
+    this.teardowns.clear()
+  }
+
+  /**
+   * True if the realm has been disposed through {@link Realm.dispose}.
+   */
+  get isDisposed() {
+    return this.disposed
+  }
+
+  /**
+   * Sets a debug label for a node. Useful for the nodes created with {@link Realm.cellInstance} and {@link Realm.signalInstance}.
+   * For node definitions, use the `label` option instead.
+   */
+  setLabel(node: NodeRef, label: string) {
+    this.labels.set(node, label)
+  }
+
+  /**
+   * Sets or removes the function that receives the trace events of the realm computation cycles.
+   */
+  setTracer(tracer: RealmTracer | undefined) {
+    this.tracer = tracer
+  }
+
+  /**
+   * Returns a read-only description of the nodes registered in the realm and the connections between them.
+   * Meant for debugging and developer tools.
+   * @example
+   * ```ts
+   * const foo$ = Cell('foo', { label: 'foo' })
+   * const r = new Realm()
+   * r.register(foo$)
+   * r.inspect().nodes // [{ node: foo$, kind: 'cell', label: 'foo', value: 'foo', ... }]
+   * ```
+   */
+  inspect(): RealmInspection {
+    const projections = new Set<RealmProjection>()
+    for (const nodeProjections of this.graph.map.values()) {
+      for (const projection of nodeProjections) {
+        projections.add(projection)
+      }
+    }
+
+    const nodes = new Set<symbol>([
+      ...this.definitionRegistry,
+      ...this.state.keys(),
+      ...this.distinctNodes.keys(),
+      ...this.subscriptions.map.keys(),
+      ...this.singletonSubscriptions.keys(),
+      ...this.graph.map.keys(),
+    ])
+    for (const { sink } of projections) {
+      nodes.add(sink)
+    }
+
+    return {
+      nodes: Array.from(nodes, (node) => {
+        const definition = nodeDefs$$.get(node)
+        const owner = this.inheritedNodes.get(node)
+        const isCell = definition !== undefined ? definition.type === CELL_TYPE : this.state.has(node)
+        return {
+          node: node as NodeRef,
+          kind: definition?.type ?? (isCell ? CELL_TYPE : 'signal'),
+          label: this.labels.get(node) ?? definition?.label ?? definition?.name,
+          value: isCell ? this.getValue(node as NodeRef) : undefined,
+          distinct: (owner ?? this).distinctNodes.has(node),
+          subscriberCount: (this.subscriptions.get(node)?.size ?? 0) + (this.singletonSubscriptions.has(node) ? 1 : 0),
+          inherited: owner !== undefined,
+        }
+      }),
+      projections: Array.from(projections, ({ sources, pulls, sink }) => ({
+        sources: Array.from(sources) as NodeRef[],
+        pulls: Array.from(pulls) as NodeRef[],
+        sink: sink as NodeRef,
+      })),
+    }
+  }
+
   inContext<T>(fn: () => T): T {
     const prevRealm = currentRealm$$
     currentRealm$$ = this
-    const result = fn()
-    currentRealm$$ = prevRealm
-    return result
+    try {
+      return fn()
+    } finally {
+      currentRealm$$ = prevRealm
+    }
   }
 
   /**
@@ -1148,9 +2122,10 @@ export class Realm {
    * r.pub(addItem$, 'bar')
    * r.getValue(items$) // ['foo', 'bar']
    * ```
+   * @returns a function that, when called, will remove the connection.
    */
-  changeWith<T, K>(cell: NodeRef<T>, source: NodeRef<K>, map: (cellValue: T, signalValue: K) => T) {
-    this.connect({
+  changeWith<T, K>(cell: NodeRef<T>, source: NodeRef<K>, map: (cellValue: T, signalValue: K) => T): UnsubscribeHandle {
+    return this.connect({
       sources: [source],
       pulls: [cell],
       sink: cell,
@@ -1160,6 +2135,31 @@ export class Realm {
     })
   }
 
+  private traceId(node: symbol) {
+    const definition = nodeDefs$$.get(node)
+    const label = this.labels.get(node) ?? definition?.label ?? definition?.name
+    if (label !== undefined) {
+      return label
+    }
+    let id = this.traceIds.get(node)
+    if (id === undefined) {
+      id = `node#${this.traceIds.size + 1}`
+      this.traceIds.set(node, id)
+    }
+    return id
+  }
+
+  private ownerOf(node: symbol): Realm | undefined {
+    // a cell with an initial value in this realm is owned by it, even if it was not touched yet.
+    if (this.state.has(node)) {
+      this.register(node as NodeRef)
+    }
+    if (this.definitionRegistry.has(node)) {
+      return this.inheritedNodes.get(node) ?? this
+    }
+    return this.parent?.ownerOf(node)
+  }
+
   private calculateExecutionMap(nodes: symbol[]) {
     const participatingNodes: symbol[] = []
     const visitedNodes = new Set()
@@ -1253,6 +2253,7 @@ export class Realm {
  * Once a realm instance publishes or subscribes to the node, an instance of that node it will be registered in the realm.
  * @param value - the initial value of the node. Stateful nodes always have a value.
  * @param init - an optional function that will be called when the node is registered in a realm. Can be used to create subscriptions and define relationships to other nodes. Any referred nodes will be registered in the realm automatically.
+ * Alternatively, pass a {@link NodeOptions} object to specify a name for the node.
  * @param distinct - if true, the node will only emit values that are different from the previous value. Optionally, a custom distinct function can be provided if the node values are non-primitive.
  * @example
  * ```ts
@@ -1266,10 +2267,8 @@ export class Realm {
  * If you need to get the current value of a stateful node, use {@link Realm.getValue}.
  * @category Nodes
  */
-export function Cell<T>(value: T, init: (r: Realm) => void = noop, distinct: Distinct<T> = true): NodeRef<T> {
-  return tap(Symbol(), (id) => {
-    nodeDefs$$.set(id, { type: CELL_TYPE, distinct, initial: value, init })
-  }) as NodeRef<T>
+export function Cell<T>(value: T, init: NodeInit<T> | NodeOptions<T> = noop, distinct: Distinct<T> = true): NodeRef<T> {
+  return defineNode({ type: CELL_TYPE, initial: value, ...nodeOptions(init, distinct) })
 }
 
 /**
@@ -1278,6 +2277,7 @@ export function Cell<T>(value: T, init: (r: Realm) => void = noop, distinct: Dis
  * @param value - the initial value of the node. Stateful nodes always have a value.
  * @param linkFn - an function that will be called when the node is registered in a realm. Should return a node reference to link to.
  * @param distinct - if true, the node will only emit values that are different from the previous value. Optionally, a custom distinct function can be provided if the node values are non-primitive.
+ * Alternatively, pass an object with the `distinct` and `name` options.
  * @example
  * ```ts
  * const bar$ = Cell('bar')
@@ -1290,23 +2290,29 @@ export function Cell<T>(value: T, init: (r: Realm) => void = noop, distinct: Dis
  * ```
  * @category Nodes
  */
-export function DerivedCell<T>(value: T, linkFn: (r: Realm, cell: NodeRef<T>) => NodeRef<T>, distinct: Distinct<T> = true): NodeRef<T> {
-  return tap(Symbol(), (id) => {
-    nodeDefs$$.set(id, {
-      type: CELL_TYPE,
-      distinct,
-      initial: value,
-      init: (r, node$) => {
-        r.link(linkFn(r, node$), node$)
-      },
-    })
-  }) as NodeRef<T>
+export function DerivedCell<T>(
+  value: T,
+  linkFn: (r: Realm, cell: NodeRef<T>) => NodeRef<T>,
+  distinct: Distinct<T> | Omit<NodeOptions<T>, 'init'> = true
+): NodeRef<T> {
+  const options = typeof distinct === 'object' ? distinct : { distinct }
+  return defineNode({
+    type: CELL_TYPE,
+    distinct: options.distinct ?? true,
+    name: options.name,
+    label: options.label,
+    initial: value,
+    init: (r, node$) => {
+      r.link(linkFn(r, node$), node$)
+    },
+  })
 }
 
 /**
  * Defines a new **stateless node** and returns a reference to it.
  * Once a realm instance publishes or subscribes to the node, an instance of that node it will be registered in the realm.
  * @param init - an optional function that will be called when the node is registered in a realm. Can be used to create subscriptions and define relationships to other nodes. Any referred nodes will be registered in the realm automatically.
+ * Alternatively, pass a {@link NodeOptions} object to specify a name for the node.
  * @param distinct - true by default. The node emits values that are different from the previous value. Optionally, a custom distinct function can be provided if the node values are non-primitive.
  * @example
  * ```ts
@@ -1318,16 +2324,15 @@ export function DerivedCell<T>(value: T, linkFn: (r: Realm, cell: NodeRef<T>) =>
  * ```
  * @category Nodes
  */
-export function Signal<T>(init: NodeInit<T> = noop, distinct: Distinct<T> = false): NodeRef<T> {
-  return tap(Symbol(), (id) => {
-    nodeDefs$$.set(id, { type: 'signal', distinct, init })
-  }) as NodeRef<T>
+export function Signal<T>(init: NodeInit<T> | NodeOptions<T> = noop, distinct: Distinct<T> = false): NodeRef<T> {
+  return defineNode({ type: 'signal', ...nodeOptions(init, distinct) })
 }
 
 /**
  * Defines a new **stateless, valueless node** and returns a reference to it.
  * Once a realm instance publishes or subscribes to the node, an instance of that node it will be registered in the realm.
  * @param init - an optional function that will be called when the node is registered in a realm. Can be used to create subscriptions and define relationships to other nodes. Any referred nodes will be registered in the realm automatically.
+ * Alternatively, pass a {@link NodeOptions} object to specify a name for the node.
  * @example
  * ```ts
  * const foo$ = Action((r) => {
@@ -1339,10 +2344,105 @@ export function Signal<T>(init: NodeInit<T> = noop, distinct: Distinct<T> = fals
  * @category Nodes
  * @remark An action is just a signal with `void` value. It can be used to trigger side effects.
  */
-export function Action(init: NodeInit<void> = noop): NodeRef<void> {
-  return tap(Symbol(), (id) => {
-    nodeDefs$$.set(id, { type: 'signal', distinct: false, init })
-  }) as NodeRef<void>
+export function Action(init: NodeInit<void> | Omit<NodeOptions<void>, 'distinct'> = noop): NodeRef<void> {
+  return defineNode({ type: 'action', ...nodeOptions(init, false), distinct: false })
+}
+
+/**
+ * Defines an **asynchronous stateful node** that holds the result of a loader function.
+ * The loader is called when the node is registered in a realm, each time one of the dependencies emits, and when the `refetch$` action is published.
+ * Calling the loader again aborts the signal passed to the previous call, and its result is ignored.
+ * While the loader is running, the state keeps the previously loaded data.
+ * @param loader - a function that receives the values of the dependencies and an abort signal, and returns a promise with the data.
+ * @param dependencies - the nodes which values are passed to the loader.
+ * @param options - see {@link ResourceOptions}.
+ * @example
+ * ```ts
+ * const userId$ = Cell(1)
+ * const { state$: user$, refetch$ } = Resource(([userId], signal) => fetch(`/users/${userId}`, { signal }).then((res) => res.json()), [userId$])
+ * const r = new Realm()
+ * r.sub(user$, ({ status, data }) => console.log(status, data))
+ * r.pub(userId$, 2) // aborts the first request and loads the second user
+ * ```
+ * @category Nodes
+ */
+export function Resource<T, D extends unknown[] = []>(
+  loader: (values: D, signal: AbortSignal) => Promise<T>,
+  dependencies: { [K in keyof D]: NodeRef<D[K]> } = [] as unknown as { [K in keyof D]: NodeRef<D[K]> },
+  { initialData, name, label }: ResourceOptions<T> = {}
+): ResourceNodes<T> {
+  const refetch$ = Action((r) => {
+    r.register(state$)
+  })
+
+  const state$ = Cell<ResourceState<T>>(
+    { status: 'idle', data: initialData, error: undefined },
+    {
+      name,
+      label,
+      distinct: false,
+      init: (r) => {
+        let controller: AbortController | null = null
+
+        const load = () => {
+          controller?.abort()
+          const current = new AbortController()
+          controller = current
+          let promise: Promise<T>
+          try {
+            promise = loader(r.getValues(dependencies as NodeRef[]) as D, current.signal)
+          } catch (error) {
+            promise = Promise.reject(error)
+          }
+          const { data } = r.getValue(state$)
+          const settled = () => !current.signal.aborted && !r.isDisposed
+          promise.then(
+            (data) => {
+              if (settled()) {
+                r.pub(state$, { status: 'success', data, error: undefined })
+              }
+            },
+            (error: unknown) => {
+              if (settled()) {
+                r.pub(state$, { status: 'error', data, error })
+              }
+            }
+          )
+          r.pub(state$, { status: 'loading', data, error: undefined, promise })
+        }
+
+        if (dependencies.length > 0) {
+          r.subMultiple(dependencies as NodeRef[], load)
+        }
+        r.sub(refetch$, load)
+        r.onDispose(() => {
+          controller?.abort()
+        })
+        load()
+      },
+    }
+  )
+
+  return { state$, refetch$ }
+}
+
+function nodeOptions<T>(init: NodeInit<T> | NodeOptions<T>, distinct: Distinct<T>) {
+  if (typeof init === 'function') {
+    return { init, distinct }
+  }
+  return { init: init.init ?? noop, distinct: init.distinct ?? distinct, name: init.name, label: init.label }
+}
+
+function defineNode<T>(definition: CellDefinition<T> | SignalDefinition<T>): NodeRef<T> {
+  return tap(Symbol(definition.name), (id) => {
+    nodeDefs$$.set(id, definition)
+    if (definition.name !== undefined) {
+      if (nodeNames$$.has(definition.name)) {
+        throw new Error(`A node with the name "${definition.name}" is already defined`)
+      }
+      nodeNames$$.set(definition.name, id)
+    }
+  }) as NodeRef<T>
 }
 
 function getCurrentRealm(): Realm {
@@ -1353,7 +2453,7 @@ function getCurrentRealm(): Realm {
 }
 
 export const link: Realm['link'] = (source, sink) => {
-  getCurrentRealm().link(source, sink)
+  return getCurrentRealm().link(source, sink)
 }
 
 // @ts-expect-error - this is fine
@@ -1375,7 +2475,7 @@ export const pipe: Realm['pipe'] = (...args: unknown[]) => {
 }
 
 export const changeWith: Realm['changeWith'] = (...args) => {
-  getCurrentRealm().changeWith(...args)
+  return getCurrentRealm().changeWith(...args)
 }
 
 // @ts-expect-error - this is fine
@@ -0,0 +1,145 @@
+/**
+ * Schedules the timed work of a realm, like the emissions of the time-based operators. Pass a custom one through the `scheduler` realm option.
+ * @category Scheduling
+ */
+export interface Scheduler {
+  /**
+   * Returns the current time in milliseconds.
+   */
+  now(): number
+  /**
+   * Calls the function after the specified delay in milliseconds.
+   * @returns a function that cancels the call.
+   */
+  schedule(callback: () => void, delay: number): () => void
+  /**
+   * Calls the function in a microtask.
+   */
+  queueMicrotask(callback: () => void): void
+}
+
+/**
+ * The default scheduler of the realms, backed by `Date.now`, `setTimeout` and `queueMicrotask`.
+ * @category Scheduling
+ */
+export const defaultScheduler: Scheduler = {
+  now: () => Date.now(),
+  schedule(callback, delay) {
+    const timeout = setTimeout(callback, delay)
+    return () => {
+      clearTimeout(timeout)
+    }
+  },
+  queueMicrotask(callback) {
+    queueMicrotask(callback)
+  },
+}
+
+interface VirtualTimer {
+  id: number
+  time: number
+  callback: () => void
+}
+
+/**
+ * A scheduler with a virtual clock, for testing time-based behavior deterministically. The time moves forward only through {@link VirtualScheduler.advanceBy} and {@link VirtualScheduler.runAll}.
+ * @example
+ * ```ts
+ * const scheduler = new VirtualScheduler()
+ * const r = new Realm({}, { scheduler })
+ * const debounced$ = r.pipe(foo$, debounceTime(100))
+ * r.pub(foo$, 'bar')
+ * scheduler.advanceBy(100) // debounced$ emits 'bar'
+ * ```
+ * @category Scheduling
+ */
+export class VirtualScheduler implements Scheduler {
+  private time: number
+  private nextId = 0
+  private timers: VirtualTimer[] = []
+  private microtasks: (() => void)[] = []
+
+  /**
+   * @param startTime - the initial value of the virtual clock.
+   */
+  constructor(startTime = 0) {
+    this.time = startTime
+  }
+
+  now() {
+    return this.time
+  }
+
+  schedule(callback: () => void, delay: number) {
+    const timer = { id: this.nextId++, time: this.time + Math.max(0, delay), callback }
+    this.timers.push(timer)
+    return () => {
+      this.timers = this.timers.filter((t) => t !== timer)
+    }
+  }
+
+  queueMicrotask(callback: () => void) {
+    this.microtasks.push(callback)
+  }
+
+  /**
+   * The number of pending timers.
+   */
+  get pendingCount() {
+    return this.timers.length
+  }
+
+  /**
+   * Runs the queued microtasks, including the ones queued while flushing.
+   */
+  flushMicrotasks() {
+    for (let task = this.microtasks.shift(); task !== undefined; task = this.microtasks.shift()) {
+      task()
+    }
+  }
+
+  /**
+   * Moves the clock forward with the specified amount of milliseconds, running the timers that are due in order. The microtasks are flushed after each timer.
+   */
+  advanceBy(duration: number) {
+    this.advanceTo(this.time + duration)
+  }
+
+  /**
+   * Moves the clock forward to the specified time, running the timers that are due in order.
+   */
+  advanceTo(time: number) {
+    this.flushMicrotasks()
+    for (let timer = this.nextTimer(time); timer !== undefined; timer = this.nextTimer(time)) {
+      this.timers = this.timers.filter((t) => t !== timer)
+      this.time = timer.time
+      timer.callback()
+      this.flushMicrotasks()
+    }
+    this.time = Math.max(this.time, time)
+  }
+
+  /**
+   * Runs all pending timers and microtasks, moving the clock forward to the last one. Throws if the timers keep re-scheduling themselves.
+   * @param limit - the maximum amount of clock moves.
+   */
+  runAll(limit = 1000) {
+    this.flushMicrotasks()
+    for (let count = 0; this.timers.length > 0; count++) {
+      if (count >= limit) {
+        throw new Error(`The virtual scheduler has not finished after ${limit} steps`)
+      }
+      this.advanceTo(this.nextTimer(Number.POSITIVE_INFINITY)?.time ?? this.time)
+    }
+  }
+
+  private nextTimer(until: number) {
+    let next: VirtualTimer | undefined
+    for (const timer of this.timers) {
+      if (timer.time <= until && (next === undefined || timer.time < next.time || (timer.time === next.time && timer.id < next.id))) {
+        next = timer
+      }
+    }
+    return next
+  }
+}
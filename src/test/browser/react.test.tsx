@@ -1,10 +1,43 @@
-import { describe, expect, it } from 'vitest'
+import { Component, type ReactNode, StrictMode, Suspense } from 'react'
+import { renderToString } from 'react-dom/server'
+import { describe, expect, it, vi } from 'vitest'
 import { render } from 'vitest-browser-react'
-import { Action, Cell, RealmProvider, mapTo, useCell, useCellValue, useCellValues, usePublisher } from '../../'
+import {
+  Action,
+  Cell,
+  Realm,
+  RealmContext,
+  RealmProvider,
+  RealmStateScript,
+  Signal,
+  mapTo,
+  readRealmState,
+  useCell,
+  useCellSelector,
+  useCellValue,
+  useCellValues,
+  useLocalCell,
+  usePublisher,
+  useSignalValue,
+  useSubscription,
+  useSuspenseCellValue,
+} from '../../'
 import { renderHook } from './renderHook'
 
 const cell$ = Cell('hello')
 
+class ErrorBoundary extends Component<{ children: ReactNode }, { error: unknown }> {
+  state = { error: null }
+
+  static getDerivedStateFromError(error: unknown) {
+    return { error }
+  }
+
+  render() {
+    return this.state.error !== null ? <div data-testid="error">{String(this.state.error)}</div> : this.props.children
+  }
+}
+
 describe('gurx realm react', () => {
   it('gets a cell value with useCell', () => {
     const { result } = renderHook(useCell, {
@@ -57,6 +90,205 @@ describe('gurx realm react', () => {
     expect(result.current).toEqual(['a', 'b'])
   })
 
+  it('shares the combined cell of useCellValues and releases it on unmount', async () => {
+    const a = Cell('a')
+    const b = Cell('b')
+    const realm = new Realm()
+    const Values = ({ id }: { id: string }) => {
+      const [aValue, bValue] = useCellValues(a, b)
+      return (
+        <div data-testid={id}>
+          {aValue}
+          {bValue}
+        </div>
+      )
+    }
+    const screen = render(
+      <RealmContext.Provider value={realm}>
+        <Values id="first" />
+        <Values id="second" />
+      </RealmContext.Provider>
+    )
+
+    await expect.element(screen.getByTestId('first')).toHaveTextContent('ab')
+    expect(realm.inspect().projections).toHaveLength(1)
+    realm.pub(a, 'c')
+    await expect.element(screen.getByTestId('second')).toHaveTextContent('cb')
+    screen.rerender(
+      <RealmContext.Provider value={realm}>
+        <Values id="first" />
+      </RealmContext.Provider>
+    )
+    expect(realm.inspect().projections).toHaveLength(1)
+
+    screen.unmount()
+    await Promise.resolve()
+    expect(realm.inspect().projections).toHaveLength(0)
+    expect(realm.inspect().nodes).toHaveLength(2)
+
+    realm.pub(b, 'd')
+    const renders = vi.fn()
+    const Remounted = () => {
+      const values = useCellValues(a, b)
+      renders(values)
+      return <div data-testid="remounted">{values.join('')}</div>
+    }
+    const remounted = render(
+      <RealmContext.Provider value={realm}>
+        <Remounted />
+      </RealmContext.Provider>
+    )
+    await expect.element(remounted.getByTestId('remounted')).toHaveTextContent('cd')
+    expect(renders.mock.calls[0]).toEqual([['c', 'd']])
+    remounted.unmount()
+  })
+
+  it('subscribes to signals with useSubscription and useSignalValue', async () => {
+    const signal$ = Signal<string>()
+    const realm = new Realm()
+    const callback = vi.fn()
+    const Listener = () => {
+      const value = useSignalValue(signal$, 'initial')
+      useSubscription(signal$, (value) => callback(value))
+      return <div data-testid="signal-value">{value}</div>
+    }
+    const screen = render(
+      <StrictMode>
+        <RealmContext.Provider value={realm}>
+          <Listener />
+        </RealmContext.Provider>
+      </StrictMode>
+    )
+
+    await expect.element(screen.getByTestId('signal-value')).toHaveTextContent('initial')
+    realm.pub(signal$, 'foo')
+    await expect.element(screen.getByTestId('signal-value')).toHaveTextContent('foo')
+    expect(callback.mock.calls).toEqual([['foo']])
+
+    screen.unmount()
+    realm.pub(signal$, 'bar')
+    expect(callback).toHaveBeenCalledTimes(1)
+  })
+
+  it('creates component-scoped cells with useLocalCell', async () => {
+    const total$ = Cell(0)
+    const realm = new Realm()
+    const Item = ({ id }: { id: string }) => {
+      const count$ = useLocalCell(0, (r, count$) => {
+        r.link(count$, total$)
+      })
+      const [count, setCount] = useCell(count$)
+      return (
+        <button type="button" data-testid={id} onClick={() => setCount(count + 1)}>
+          {count}
+        </button>
+      )
+    }
+    realm.register(total$)
+    const nodeCount = realm.inspect().nodes.length
+    const screen = render(
+      <StrictMode>
+        <RealmContext.Provider value={realm}>
+          <Item id="first" />
+          <Item id="second" />
+        </RealmContext.Provider>
+      </StrictMode>
+    )
+
+    await screen.getByTestId('first').click()
+    await expect.element(screen.getByTestId('first')).toHaveTextContent('1')
+    await expect.element(screen.getByTestId('second')).toHaveTextContent('0')
+    expect(realm.getValue(total$)).toEqual(1)
+    expect(realm.inspect().projections).toHaveLength(2)
+
+    screen.unmount()
+    await Promise.resolve()
+    expect(realm.inspect().projections).toHaveLength(0)
+    expect(realm.inspect().nodes).toHaveLength(nodeCount)
+  })
+
+  it('suspends while the promise of the cell is pending', async () => {
+    const value$ = Cell<Promise<string> | string>('initial')
+    const realm = new Realm()
+    const Value = () => {
+      const value = useSuspenseCellValue(value$)
+      return <div data-testid="suspense-value">{value}</div>
+    }
+    const screen = render(
+      <RealmContext.Provider value={realm}>
+        <Suspense fallback={<div data-testid="fallback">loading</div>}>
+          <Value />
+        </Suspense>
+      </RealmContext.Provider>
+    )
+
+    await expect.element(screen.getByTestId('suspense-value')).toHaveTextContent('initial')
+    let resolve: (value: string) => void = () => {}
+    realm.pub(
+      value$,
+      new Promise<string>((r) => {
+        resolve = r
+      })
+    )
+    await expect.element(screen.getByTestId('fallback')).toBeInTheDocument()
+    resolve('resolved')
+    await expect.element(screen.getByTestId('suspense-value')).toHaveTextContent('resolved')
+  })
+
+  it('throws the rejections of the cell promise to the error boundary', async () => {
+    const value$ = Cell<Promise<string>>(Promise.reject(new Error('failed')))
+    const realm = new Realm()
+    const Value = () => {
+      const value = useSuspenseCellValue(value$)
+      return <div>{value}</div>
+    }
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const screen = render(
+      <RealmContext.Provider value={realm}>
+        <ErrorBoundary>
+          <Suspense fallback={<div>loading</div>}>
+            <Value />
+          </Suspense>
+        </ErrorBoundary>
+      </RealmContext.Provider>
+    )
+
+    await expect.element(screen.getByTestId('error')).toHaveTextContent('Error: failed')
+    consoleError.mockRestore()
+  })
+
+  it('re-renders only when the selected slice changes', async () => {
+    const doc$ = Cell({ title: 'Hello', body: 'World' })
+    const renders = vi.fn()
+    const Title = () => {
+      const title = useCellSelector(doc$, (doc) => doc.title)
+      renders(title)
+      return <div data-testid="title">{title}</div>
+    }
+    const Editor = () => {
+      const [doc, setDoc] = useCell(doc$)
+      return (
+        <>
+          <button type="button" data-testid="body" onClick={() => setDoc({ ...doc, body: 'Changed' })} />
+          <button type="button" data-testid="title-button" onClick={() => setDoc({ ...doc, title: 'Bye' })} />
+        </>
+      )
+    }
+    const screen = render(
+      <RealmProvider>
+        <Title />
+        <Editor />
+      </RealmProvider>
+    )
+
+    await expect.element(screen.getByTestId('title')).toHaveTextContent('Hello')
+    await screen.getByTestId('body').click()
+    expect(renders).toHaveBeenCalledTimes(1)
+    await screen.getByTestId('title-button').click()
+    await expect.element(screen.getByTestId('title')).toHaveTextContent('Bye')
+    expect(renders).toHaveBeenCalledTimes(2)
+  })
+
   describe('provider props', () => {
     it('allows setting initial cell values', () => {
       const { result } = renderHook(useCell, {
@@ -68,6 +300,46 @@ describe('gurx realm react', () => {
       expect(result.current?.[0]).toEqual('world')
     })
 
+    it('shares the parent cells with inheriting providers', () => {
+      const { result } = renderHook(useCellValue, {
+        initialProps: cell$,
+        wrapper: ({ children }) => {
+          return (
+            <RealmProvider initWith={{ [cell$]: 'parent' }}>
+              <RealmProvider inherit>{children}</RealmProvider>
+            </RealmProvider>
+          )
+        },
+      })
+      expect(result.current).toEqual('parent')
+    })
+
+    it('hydrates the state rendered on the server', async () => {
+      const named$ = Cell('initial', { name: 'ssr-named' })
+      const Child = () => {
+        const value = useCellValue(named$)
+        return <div data-testid="named-value">{value}</div>
+      }
+
+      const html = renderToString(
+        <RealmProvider initWith={{ [named$]: '<server>' }}>
+          <Child />
+          <RealmStateScript />
+        </RealmProvider>
+      )
+      const container = document.createElement('div')
+      container.innerHTML = html
+      document.body.appendChild(container)
+
+      const screen = render(
+        <RealmProvider hydrateWith={readRealmState()}>
+          <Child />
+        </RealmProvider>
+      )
+      await expect.element(screen.getByTestId('named-value')).toHaveTextContent('<server>')
+      container.remove()
+    })
+
     it('accepts update props', async () => {
       const Child = () => {
         const [value] = useCell(cell$)
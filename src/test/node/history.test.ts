@@ -0,0 +1,194 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { Cell, CellHistory, DerivedCell, Realm, VirtualScheduler } from '../..'
+import { map } from '../../operators'
+
+describe('cell history', () => {
+  let r: Realm
+  beforeEach(() => {
+    r = new Realm()
+  })
+
+  it('undoes and redoes changes', () => {
+    const a = Cell('a')
+    const { undo$, redo$, canUndo$, canRedo$ } = CellHistory([a])
+    r.register(undo$)
+    expect(r.getValues([canUndo$, canRedo$])).toEqual([false, false])
+
+    r.pub(a, 'b')
+    r.pub(a, 'c')
+    expect(r.getValue(canUndo$)).toBe(true)
+
+    r.pub(undo$)
+    expect(r.getValue(a)).toEqual('b')
+    r.pub(undo$)
+    expect(r.getValue(a)).toEqual('a')
+    expect(r.getValues([canUndo$, canRedo$])).toEqual([false, true])
+
+    r.pub(redo$)
+    expect(r.getValue(a)).toEqual('b')
+    expect(r.getValues([canUndo$, canRedo$])).toEqual([true, true])
+  })
+
+  it('reports the stacks when the flags are registered after changes were recorded', () => {
+    const a = Cell('a')
+    const { undo$, canUndo$, canRedo$ } = CellHistory([a])
+    r.register(undo$)
+
+    r.pub(a, 'b')
+    expect(r.getValues([canUndo$, canRedo$])).toEqual([true, false])
+  })
+
+  it('records the changes of a single cycle as one transaction', () => {
+    const a = Cell('a')
+    const b = Cell(1)
+    const { undo$ } = CellHistory([a, b])
+    r.register(undo$)
+
+    r.pubIn({ [a]: 'b', [b]: 2 })
+    r.pub(undo$)
+    expect(r.getValues([a, b])).toEqual(['a', 1])
+  })
+
+  it('recomputes derived cells when restoring', () => {
+    const a = Cell(1)
+    const b = DerivedCell(2, (r) =>
+      r.pipe(
+        a,
+        map((value) => value * 2)
+      )
+    )
+    const { undo$ } = CellHistory([a])
+    r.register(undo$)
+    r.register(b)
+
+    r.pub(a, 2)
+    r.pub(undo$)
+    expect(r.getValue(b)).toEqual(2)
+  })
+
+  it('clears the redo stack on new changes', () => {
+    const a = Cell('a')
+    const { undo$, canRedo$ } = CellHistory([a])
+    r.register(undo$)
+
+    r.pub(a, 'b')
+    r.pub(undo$)
+    r.pub(a, 'c')
+    expect(r.getValue(canRedo$)).toBe(false)
+  })
+
+  it('groups changes between the group markers', () => {
+    const a = Cell('a')
+    const b = Cell(1)
+    const { undo$, beginGroup$, endGroup$ } = CellHistory([a, b])
+    r.register(undo$)
+
+    r.pub(a, 'b')
+    r.pub(beginGroup$)
+    r.pub(a, 'c')
+    r.pub(b, 2)
+    r.pub(endGroup$)
+    r.pub(undo$)
+    expect(r.getValues([a, b])).toEqual(['b', 1])
+  })
+
+  it('limits the number of transactions', () => {
+    const a = Cell(0)
+    const { undo$ } = CellHistory([a], { limit: 2 })
+    r.register(undo$)
+
+    r.pub(a, 1)
+    r.pub(a, 2)
+    r.pub(a, 3)
+    r.pub(undo$)
+    r.pub(undo$)
+    r.pub(undo$)
+    expect(r.getValue(a)).toEqual(1)
+  })
+
+  it('clears the history', () => {
+    const a = Cell(0)
+    const { undo$, clear$, canUndo$ } = CellHistory([a])
+    r.register(undo$)
+
+    r.pub(a, 1)
+    r.pub(clear$)
+    expect(r.getValue(canUndo$)).toBe(false)
+  })
+
+  it('undoes and redoes changes with deferred notifications', () => {
+    r = new Realm({}, { notifications: 'deferred' })
+    const a = Cell('a')
+    const { undo$, redo$, canUndo$, canRedo$ } = CellHistory([a])
+    r.register(undo$)
+    expect(r.getValues([canUndo$, canRedo$])).toEqual([false, false])
+
+    r.pub(a, 'b')
+    r.pub(undo$)
+    expect(r.getValue(a)).toEqual('a')
+    expect(r.getValues([canUndo$, canRedo$])).toEqual([false, true])
+
+    r.pub(redo$)
+    expect(r.getValue(a)).toEqual('b')
+    expect(r.getValues([canUndo$, canRedo$])).toEqual([true, false])
+
+    r.pub(a, 'c')
+    r.pub(undo$)
+    expect(r.getValue(a)).toEqual('b')
+  })
+
+  it('undoes a change published in the same transaction', () => {
+    const a = Cell('')
+    const { undo$, redo$, canUndo$, canRedo$ } = CellHistory([a])
+    r.register(undo$)
+
+    r.pub(a, 'z')
+    r.transaction(() => {
+      r.pub(a, 'q')
+      r.pub(undo$)
+    })
+    expect(r.getValue(a)).toEqual('')
+    expect(r.getValues([canUndo$, canRedo$])).toEqual([false, true])
+
+    r.pub(redo$)
+    expect(r.getValue(a)).toEqual('z')
+  })
+
+  it('undoes a change published in the same transaction with deferred notifications', () => {
+    r = new Realm({}, { notifications: 'deferred' })
+    const a = Cell('')
+    const { undo$, redo$, canUndo$, canRedo$ } = CellHistory([a])
+    r.register(undo$)
+
+    r.pub(a, 'z')
+    r.transaction(() => {
+      r.pub(a, 'q')
+      r.pub(undo$)
+    })
+    expect(r.getValue(a)).toEqual('')
+    expect(r.getValues([canUndo$, canRedo$])).toEqual([false, true])
+
+    r.pub(redo$)
+    expect(r.getValue(a)).toEqual('z')
+  })
+
+  describe('time-based coalescing', () => {
+    it('merges the changes within the coalesce time', () => {
+      const scheduler = new VirtualScheduler()
+      r = new Realm({}, { scheduler })
+      const a = Cell('')
+      const { undo$ } = CellHistory([a], { coalesceTime: 100 })
+      r.register(undo$)
+
+      r.pub(a, 'h')
+      scheduler.advanceBy(50)
+      r.pub(a, 'he')
+      scheduler.advanceBy(200)
+      r.pub(a, 'hel')
+      r.pub(undo$)
+      expect(r.getValue(a)).toEqual('he')
+      r.pub(undo$)
+      expect(r.getValue(a)).toEqual('')
+    })
+  })
+})
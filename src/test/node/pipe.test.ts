@@ -1,8 +1,48 @@
-import { describe, expect, it, vi } from 'vitest'
-import { Cell, Realm, Signal } from '../..'
-import { debounceTime, filter, map, mapTo, onNext, once, scan, throttleTime, withLatestFrom } from '../../operators'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { Action, Cell, Realm, Signal, VirtualScheduler } from '../..'
+import {
+  auditTime,
+  bufferCount,
+  bufferTime,
+  combineMap,
+  concatMap,
+  debounceTime,
+  delay,
+  distinctUntilChanged,
+  exhaustMap,
+  filter,
+  last,
+  map,
+  mapTo,
+  merge,
+  mergeMap,
+  onNext,
+  once,
+  pairwise,
+  reduce,
+  sampleTime,
+  scan,
+  skip,
+  skipWhile,
+  startWith,
+  switchMap,
+  take,
+  takeUntil,
+  takeWhile,
+  throttleTime,
+  withLatestFrom,
+  zip,
+} from '../../operators'
 import { noop } from '../../utils'
 
+function deferred<T>() {
+  let resolve: (value: T) => void = noop
+  const promise = new Promise<T>((res) => {
+    resolve = res
+  })
+  return { promise, resolve }
+}
+
 async function awaitCall(cb: () => unknown, delay: number) {
   return await new Promise((resolve) => {
     setTimeout(() => {
@@ -141,8 +181,9 @@ describe('pipe', () => {
     expect(spy).toHaveBeenCalledTimes(1)
   })
 
-  it('throttleTime delays the execution', async () => {
-    const r = new Realm()
+  it('throttleTime delays the execution', () => {
+    const scheduler = new VirtualScheduler()
+    const r = new Realm({}, { scheduler })
     const a = Signal<number>()
     const b = r.pipe(a, throttleTime(60))
     const spy = vi.fn()
@@ -150,17 +191,20 @@ describe('pipe', () => {
 
     r.pub(a, 1)
 
-    await awaitCall(() => r.pub(a, 2), 20) // +20
-    await awaitCall(() => r.pub(a, 3), 30) // +30
+    scheduler.advanceBy(20)
+    r.pub(a, 2)
+    scheduler.advanceBy(30)
+    r.pub(a, 3)
     expect(spy).toHaveBeenCalledTimes(0)
-    await awaitCall(noop, 20) // +20 = 80
+    scheduler.advanceBy(20)
 
     expect(spy).toHaveBeenCalledWith(3)
     expect(spy).toHaveBeenCalledTimes(1)
   })
 
-  it('debounceTime bounces the execution', async () => {
-    const r = new Realm()
+  it('debounceTime bounces the execution', () => {
+    const scheduler = new VirtualScheduler()
+    const r = new Realm({}, { scheduler })
     const a = Signal<number>()
     const b = r.pipe(a, debounceTime(60))
     const spy = vi.fn()
@@ -168,15 +212,32 @@ describe('pipe', () => {
 
     r.pub(a, 1)
 
-    await awaitCall(() => r.pub(a, 2), 20) // +20
-    await awaitCall(() => r.pub(a, 3), 30) // +30
+    scheduler.advanceBy(20)
+    r.pub(a, 2)
+    scheduler.advanceBy(30)
+    r.pub(a, 3)
     expect(spy).toHaveBeenCalledTimes(0)
-    await awaitCall(noop, 70)
+    scheduler.advanceBy(70)
 
     expect(spy).toHaveBeenCalledWith(3)
     expect(spy).toHaveBeenCalledTimes(1)
   })
 
+  it('debounceTime cancels the pending emission when the realm is disposed', () => {
+    const scheduler = new VirtualScheduler()
+    const r = new Realm({}, { scheduler })
+    const a = Signal<number>()
+    const b = r.pipe(a, debounceTime(20))
+    const spy = vi.fn()
+    r.sub(b, spy)
+
+    r.pub(a, 1)
+    r.dispose()
+    scheduler.advanceBy(40)
+
+    expect(spy).toHaveBeenCalledTimes(0)
+  })
+
   it('combines node values', () => {
     const r = new Realm()
     const a = Cell<number>(0)
@@ -211,4 +272,643 @@ describe('pipe', () => {
     r.pub(a)
     expect(r.getValue(b)).toBe(2)
   })
+
+  describe('flattening operators', () => {
+    it('switchMap aborts the previous request and ignores its result', async () => {
+      const r = new Realm()
+      const a = Signal<number>()
+      const requests = [deferred<string>(), deferred<string>()]
+      const signals: AbortSignal[] = []
+      const b = r.pipe(
+        a,
+        switchMap((value: number, signal) => {
+          signals.push(signal)
+          return requests[value].promise
+        })
+      )
+      const spy = vi.fn()
+      r.sub(b, spy)
+
+      r.pub(a, 0)
+      r.pub(a, 1)
+      expect(signals[0].aborted).toBe(true)
+      expect(signals[1].aborted).toBe(false)
+      requests[1].resolve('second')
+      requests[0].resolve('first')
+      await awaitCall(noop, 0)
+
+      expect(spy).toHaveBeenCalledTimes(1)
+      expect(spy).toHaveBeenCalledWith('second')
+    })
+
+    it('switchMap forwards the next value of an inner node', () => {
+      const r = new Realm()
+      const a = Signal<number>()
+      const inner = Signal<string>()
+      const b = r.pipe(
+        a,
+        switchMap(() => inner)
+      )
+      const spy = vi.fn()
+      r.sub(b, spy)
+
+      r.pub(a, 0)
+      r.pub(inner, 'foo')
+      r.pub(inner, 'bar')
+      expect(spy).toHaveBeenCalledTimes(1)
+      expect(spy).toHaveBeenCalledWith('foo')
+    })
+
+    it('mergeMap emits the results in the order they settle', async () => {
+      const r = new Realm()
+      const a = Signal<number>()
+      const requests = [deferred<string>(), deferred<string>()]
+      const b = r.pipe(
+        a,
+        mergeMap((value: number) => requests[value].promise)
+      )
+      const spy = vi.fn()
+      r.sub(b, spy)
+
+      r.pub(a, 0)
+      r.pub(a, 1)
+      requests[1].resolve('second')
+      requests[0].resolve('first')
+      await awaitCall(noop, 0)
+
+      expect(spy.mock.calls).toEqual([['second'], ['first']])
+    })
+
+    it('concatMap queues the values until the previous result settles', async () => {
+      const r = new Realm()
+      const a = Signal<number>()
+      const requests = [deferred<string>(), deferred<string>()]
+      const project = vi.fn((value: number) => requests[value].promise)
+      const b = r.pipe(a, concatMap(project))
+      const spy = vi.fn()
+      r.sub(b, spy)
+
+      r.pub(a, 0)
+      r.pub(a, 1)
+      expect(project).toHaveBeenCalledTimes(1)
+      requests[1].resolve('second')
+      requests[0].resolve('first')
+      await awaitCall(noop, 0)
+
+      expect(project).toHaveBeenCalledTimes(2)
+      expect(spy.mock.calls).toEqual([['first'], ['second']])
+    })
+
+    it('exhaustMap ignores the values while the previous result is pending', async () => {
+      const r = new Realm()
+      const a = Signal<number>()
+      const requests = [deferred<string>(), deferred<string>()]
+      const project = vi.fn((value: number) => requests[value].promise)
+      const b = r.pipe(a, exhaustMap(project))
+      const spy = vi.fn()
+      r.sub(b, spy)
+
+      r.pub(a, 0)
+      r.pub(a, 1)
+      requests[0].resolve('first')
+      await awaitCall(noop, 0)
+
+      expect(project).toHaveBeenCalledTimes(1)
+      expect(spy.mock.calls).toEqual([['first']])
+    })
+
+    it('publishes the rejected promises into the error signal', async () => {
+      const r = new Realm()
+      const a = Signal<number>()
+      const error = new Error('failed')
+      const b = r.pipe(
+        a,
+        switchMap(() => Promise.reject(error))
+      )
+      const errorSpy = vi.fn()
+      r.sub(r.error$, errorSpy)
+
+      r.pub(a, 0)
+      await awaitCall(noop, 0)
+
+      expect(errorSpy).toHaveBeenCalledWith({ error, node: b, source: 'projection' })
+    })
+
+    it('passes the rejected promises to the onError option', async () => {
+      const onError = vi.fn()
+      const r = new Realm({}, { onError })
+      const a = Signal<number>()
+      const error = new Error('failed')
+      const b = r.pipe(
+        a,
+        mergeMap(() => Promise.reject(error))
+      )
+
+      r.pub(a, 0)
+      await awaitCall(noop, 0)
+
+      expect(onError).toHaveBeenCalledWith({ error, node: b, source: 'projection' })
+    })
+
+    it('keeps accepting values after an unhandled rejection, and throws it in a separate task', async () => {
+      const scheduler = new VirtualScheduler()
+      const r = new Realm({}, { scheduler })
+      const a = Signal<number>()
+      const spy = vi.fn()
+      r.sub(
+        r.pipe(
+          a,
+          exhaustMap((value) => (value === 1 ? Promise.reject(new Error('boom')) : Promise.resolve(value)))
+        ),
+        spy
+      )
+
+      r.pub(a, 1)
+      await awaitCall(noop, 0)
+      expect(() => scheduler.runAll()).toThrowError('boom')
+
+      r.pub(a, 2)
+      await awaitCall(noop, 0)
+      expect(spy).toHaveBeenCalledWith(2)
+    })
+
+    it('aborts the pending requests when the realm is disposed', () => {
+      const r = new Realm()
+      const a = Signal<number>()
+      let abortSignal: AbortSignal | undefined
+      r.pipe(
+        a,
+        mergeMap((_: number, signal) => {
+          abortSignal = signal
+          return deferred<string>().promise
+        })
+      )
+
+      r.pub(a, 0)
+      r.dispose()
+      expect(abortSignal?.aborted).toBe(true)
+    })
+  })
+
+  describe('time-based operators', () => {
+    let scheduler: VirtualScheduler
+    let r: Realm
+    beforeEach(() => {
+      scheduler = new VirtualScheduler()
+      r = new Realm({}, { scheduler })
+    })
+
+    it('throttleTime emits the leading and the trailing values', () => {
+      const a = Signal<number>()
+      const b = r.pipe(a, throttleTime(50, { leading: true, trailing: true }))
+      const spy = vi.fn()
+      r.sub(b, spy)
+
+      r.pub(a, 1)
+      expect(spy.mock.calls).toEqual([[1]])
+      r.pub(a, 2)
+      r.pub(a, 3)
+      scheduler.advanceBy(50)
+      expect(spy.mock.calls).toEqual([[1], [3]])
+      r.pub(a, 4)
+      expect(spy.mock.calls).toEqual([[1], [3]])
+      scheduler.advanceBy(50)
+      expect(spy.mock.calls).toEqual([[1], [3], [4]])
+    })
+
+    it('throttleTime emits only the leading value', () => {
+      const a = Signal<number>()
+      const b = r.pipe(a, throttleTime(50, { leading: true, trailing: false }))
+      const spy = vi.fn()
+      r.sub(b, spy)
+
+      r.pub(a, 1)
+      r.pub(a, 2)
+      scheduler.advanceBy(50)
+      r.pub(a, 3)
+      expect(spy.mock.calls).toEqual([[1], [3]])
+    })
+
+    it('auditTime emits the last value of the window', () => {
+      const a = Signal<number>()
+      const b = r.pipe(a, auditTime(50))
+      const spy = vi.fn()
+      r.sub(b, spy)
+
+      r.pub(a, 1)
+      r.pub(a, 2)
+      expect(spy).not.toHaveBeenCalled()
+      scheduler.advanceBy(50)
+      expect(spy.mock.calls).toEqual([[2]])
+    })
+
+    it('debounceTime emits after the maximum wait time', () => {
+      const a = Signal<number>()
+      const b = r.pipe(a, debounceTime(30, { maxWait: 50 }))
+      const spy = vi.fn()
+      r.sub(b, spy)
+
+      for (let i = 1; i <= 3; i++) {
+        r.pub(a, i)
+        scheduler.advanceBy(20)
+      }
+      expect(spy.mock.calls).toEqual([[3]])
+      scheduler.advanceBy(30)
+      expect(spy.mock.calls).toEqual([[3]])
+    })
+
+    it('bufferTime collects the values of the window', () => {
+      const a = Signal<number>()
+      const b = r.pipe(a, bufferTime(50))
+      const spy = vi.fn()
+      r.sub(b, spy)
+
+      r.pub(a, 1)
+      r.pub(a, 2)
+      scheduler.advanceBy(50)
+      r.pub(a, 3)
+      scheduler.advanceBy(50)
+      expect(spy.mock.calls).toEqual([[[1, 2]], [[3]]])
+    })
+
+    it('bufferCount emits the values in batches', () => {
+      const a = Signal<number>()
+      const b = r.pipe(a, bufferCount(2))
+      const spy = vi.fn()
+      r.sub(b, spy)
+
+      for (let i = 1; i <= 5; i++) {
+        r.pub(a, i)
+      }
+      expect(spy.mock.calls).toEqual([[[1, 2]], [[3, 4]]])
+    })
+
+    it('sampleTime emits the latest value at each interval', () => {
+      const a = Signal<number>()
+      const b = r.pipe(a, sampleTime(50))
+      const spy = vi.fn()
+      r.sub(b, spy)
+
+      r.pub(a, 1)
+      r.pub(a, 2)
+      scheduler.advanceBy(50)
+      scheduler.advanceBy(50)
+      r.pub(a, 3)
+      scheduler.advanceBy(50)
+      expect(spy.mock.calls).toEqual([[2], [3]])
+      r.dispose()
+    })
+
+    it('sampleTime stops sampling when idle and when the source completes', () => {
+      const a = Signal<number>()
+      const spy = vi.fn()
+      r.sub(r.pipe(a, sampleTime(50)), spy)
+
+      r.pub(a, 1)
+      scheduler.runAll()
+      expect(spy.mock.calls).toEqual([[1]])
+      expect(scheduler.pendingCount).toEqual(0)
+
+      r.pub(a, 2)
+      r.complete(a)
+      expect(spy.mock.calls).toEqual([[1], [2]])
+      expect(scheduler.pendingCount).toEqual(0)
+    })
+
+    it('delay postpones each value', () => {
+      const a = Signal<number>()
+      const b = r.pipe(a, delay(50))
+      const spy = vi.fn()
+      r.sub(b, spy)
+
+      r.pub(a, 1)
+      scheduler.advanceBy(20)
+      r.pub(a, 2)
+      scheduler.advanceBy(30)
+      expect(spy.mock.calls).toEqual([[1]])
+      scheduler.advanceBy(20)
+      expect(spy.mock.calls).toEqual([[1], [2]])
+    })
+
+    it('cancels the pending timers when the realm is disposed', () => {
+      const a = Signal<number>()
+      const spy = vi.fn()
+      r.sub(r.pipe(a, delay(50)), spy)
+      r.sub(r.pipe(a, bufferTime(50)), spy)
+      r.sub(r.pipe(a, sampleTime(50)), spy)
+      r.sub(r.pipe(a, debounceTime(50, { maxWait: 60 })), spy)
+
+      r.pub(a, 1)
+      r.dispose()
+      scheduler.advanceBy(100)
+      expect(spy).not.toHaveBeenCalled()
+      expect(scheduler.pendingCount).toEqual(0)
+    })
+  })
+
+  describe('combination operators', () => {
+    it('merge emits the values of all nodes', () => {
+      const r = new Realm()
+      const a = Signal<number>()
+      const b = Signal<string>()
+      const spy = vi.fn()
+      r.sub(r.pipe(a, merge(b)), spy)
+
+      r.pub(a, 1)
+      r.pub(b, 'b')
+      expect(spy.mock.calls).toEqual([[1], ['b']])
+    })
+
+    it('merge emits once with the value of the last node when several nodes emit in one cycle', () => {
+      const r = new Realm()
+      const a = Signal<number>()
+      const b = Signal<number>()
+      const c = Signal<number>()
+      const spy = vi.fn()
+      r.sub(r.pipe(a, merge(b, c)), spy)
+
+      r.pubIn({ [a]: 1, [b]: 2 })
+      expect(spy.mock.calls).toEqual([[2]])
+    })
+
+    it('zip pairs the values by their emission index', () => {
+      const r = new Realm()
+      const a = Signal<number>()
+      const b = Signal<string>()
+      const spy = vi.fn()
+      r.sub(r.pipe(a, zip(b)), spy)
+
+      r.pub(a, 1)
+      r.pub(a, 2)
+      expect(spy).not.toHaveBeenCalled()
+      r.pub(b, 'a')
+      r.pubIn({ [a]: 3, [b]: 'b' })
+      expect(spy.mock.calls).toEqual([[[1, 'a']], [[2, 'b']]])
+      r.pub(b, 'c')
+      expect(spy.mock.calls).toEqual([[[1, 'a']], [[2, 'b']], [[3, 'c']]])
+    })
+
+    it('startWith gives the node an initial value', () => {
+      const r = new Realm()
+      const a = Signal<number>()
+      const b = Cell(0)
+      const spy = vi.fn()
+      r.sub(r.combine(r.pipe(a, startWith(0)), b), spy)
+
+      r.pub(b, 1)
+      expect(spy).toHaveBeenCalledWith([0, 1])
+      r.pub(a, 2)
+      expect(spy).toHaveBeenCalledWith([2, 1])
+    })
+
+    it('pairwise emits the previous and the current values', () => {
+      const r = new Realm()
+      const a = Signal<number>()
+      const spy = vi.fn()
+      r.sub(r.pipe(a, pairwise()), spy)
+
+      r.pub(a, 1)
+      r.pub(a, 2)
+      r.pub(a, 3)
+      expect(spy.mock.calls).toEqual([[[1, 2]], [[2, 3]]])
+    })
+
+    it('combineMap maps the latest values of the nodes', () => {
+      const r = new Realm()
+      const a = Cell('John')
+      const b = Cell('Doe')
+      const spy = vi.fn()
+      r.sub(
+        r.pipe(
+          a,
+          combineMap([b], (first, last) => `${first} ${last}`)
+        ),
+        spy
+      )
+
+      r.pubIn({ [a]: 'Jane', [b]: 'Roe' })
+      r.pub(b, 'Smith')
+      expect(spy.mock.calls).toEqual([['Jane Roe'], ['Jane Smith']])
+    })
+  })
+
+  describe('filtering operators', () => {
+    it('distinctUntilChanged skips the repeating values', () => {
+      const r = new Realm()
+      const a = Signal<number>()
+      const spy = vi.fn()
+      r.sub(r.pipe(a, distinctUntilChanged()), spy)
+
+      for (const value of [1, 1, 2, 2, 1]) {
+        r.pub(a, value)
+      }
+      expect(spy.mock.calls).toEqual([[1], [2], [1]])
+    })
+
+    it('distinctUntilChanged accepts a comparator or a key selector', () => {
+      const r = new Realm()
+      const a = Signal<{ id: number; name: string }>()
+      const byComparator = vi.fn()
+      const byKey = vi.fn()
+      r.sub(
+        r.pipe(
+          a,
+          distinctUntilChanged((previous, current) => previous?.name === current.name)
+        ),
+        byComparator
+      )
+      r.sub(
+        r.pipe(
+          a,
+          distinctUntilChanged((value) => value.id)
+        ),
+        byKey
+      )
+
+      r.pub(a, { id: 1, name: 'foo' })
+      r.pub(a, { id: 1, name: 'bar' })
+      r.pub(a, { id: 2, name: 'bar' })
+      expect(byComparator).toHaveBeenCalledTimes(2)
+      expect(byKey).toHaveBeenCalledTimes(2)
+    })
+
+    it('skip and skipWhile skip the first values', () => {
+      const r = new Realm()
+      const a = Signal<number>()
+      const skipSpy = vi.fn()
+      const skipWhileSpy = vi.fn()
+      r.sub(r.pipe(a, skip(2)), skipSpy)
+      r.sub(
+        r.pipe(
+          a,
+          skipWhile((value) => value < 2)
+        ),
+        skipWhileSpy
+      )
+
+      for (const value of [1, 2, 3, 1]) {
+        r.pub(a, value)
+      }
+      expect(skipSpy.mock.calls).toEqual([[3], [1]])
+      expect(skipWhileSpy.mock.calls).toEqual([[2], [3], [1]])
+    })
+
+    it('take emits the first values and detaches from the source', () => {
+      const r = new Realm()
+      const a = Signal<number>()
+      const spy = vi.fn()
+      r.sub(r.pipe(a, take(2)), spy)
+      expect(r.inspect().projections).toHaveLength(1)
+
+      for (const value of [1, 2, 3]) {
+        r.pub(a, value)
+      }
+      expect(spy.mock.calls).toEqual([[1], [2]])
+      expect(r.inspect().projections).toHaveLength(0)
+    })
+
+    it('takeWhile stops at the first value that does not match', () => {
+      const r = new Realm()
+      const a = Signal<number>()
+      const spy = vi.fn()
+      r.sub(
+        r.pipe(
+          a,
+          takeWhile((value) => value < 3)
+        ),
+        spy
+      )
+
+      for (const value of [1, 2, 3, 1]) {
+        r.pub(a, value)
+      }
+      expect(spy.mock.calls).toEqual([[1], [2]])
+      expect(r.inspect().projections).toHaveLength(0)
+    })
+
+    it('takeUntil stops when the notifier emits', () => {
+      const r = new Realm()
+      const a = Signal<number>()
+      const stop = Action()
+      const spy = vi.fn()
+      r.sub(r.pipe(a, takeUntil(stop)), spy)
+
+      r.pub(a, 1)
+      r.pub(stop)
+      r.pub(a, 2)
+      expect(spy.mock.calls).toEqual([[1]])
+      expect(r.inspect().projections).toHaveLength(0)
+    })
+  })
+
+  describe('completion', () => {
+    it('last and reduce emit when the source completes', () => {
+      const r = new Realm()
+      const a = Signal<number>()
+      const lastSpy = vi.fn()
+      const reduceSpy = vi.fn()
+      r.sub(r.pipe(a, last()), lastSpy)
+      r.sub(
+        r.pipe(
+          a,
+          reduce((sum, value) => sum + value, 0)
+        ),
+        reduceSpy
+      )
+
+      r.pub(a, 1)
+      r.pub(a, 2)
+      expect(lastSpy).not.toHaveBeenCalled()
+      r.complete(a)
+      expect(lastSpy.mock.calls).toEqual([[2]])
+      expect(reduceSpy.mock.calls).toEqual([[3]])
+    })
+
+    it('take completes the resulting node', () => {
+      const r = new Realm()
+      const a = Signal<number>()
+      const b = r.pipe(
+        a,
+        take(2),
+        reduce((sum, value) => sum + value, 0)
+      )
+      const spy = vi.fn()
+      r.sub(b, spy)
+
+      for (const value of [1, 2, 3]) {
+        r.pub(a, value)
+      }
+      expect(spy.mock.calls).toEqual([[3]])
+    })
+
+    it('bufferCount emits the remaining values when the source completes', () => {
+      const r = new Realm()
+      const a = Signal<number>()
+      const spy = vi.fn()
+      r.sub(r.pipe(a, bufferCount(2)), spy)
+
+      for (const value of [1, 2, 3]) {
+        r.pub(a, value)
+      }
+      r.complete(a)
+      expect(spy.mock.calls).toEqual([[[1, 2]], [[3]]])
+    })
+
+    it('debounceTime flushes the pending value and completes when the source completes', () => {
+      const scheduler = new VirtualScheduler()
+      const r = new Realm({}, { scheduler })
+      const a = Signal<number>()
+      const spy = vi.fn()
+      r.sub(r.pipe(a, debounceTime(10), last()), spy)
+
+      r.pub(a, 1)
+      r.pub(a, 2)
+      r.complete(a)
+      scheduler.runAll()
+      expect(spy.mock.calls).toEqual([[2]])
+      expect(scheduler.pendingCount).toEqual(0)
+    })
+
+    it('delay completes after the pending values are emitted', () => {
+      const scheduler = new VirtualScheduler()
+      const r = new Realm({}, { scheduler })
+      const a = Signal<number>()
+      const b = r.pipe(a, delay(10))
+      const spy = vi.fn()
+      r.sub(
+        r.pipe(
+          b,
+          reduce((values: number[], value) => [...values, value], [])
+        ),
+        spy
+      )
+
+      r.pub(a, 1)
+      r.complete(a)
+      expect(r.isCompleted(b)).toBe(false)
+      scheduler.advanceBy(10)
+      expect(r.isCompleted(b)).toBe(true)
+      expect(spy.mock.calls).toEqual([[[1]]])
+    })
+
+    it('switchMap completes after the pending promise settles', async () => {
+      const r = new Realm()
+      const a = Signal<number>()
+      const request = deferred<string>()
+      const b = r.pipe(
+        a,
+        switchMap(() => request.promise)
+      )
+      const spy = vi.fn()
+      r.sub(r.pipe(b, last()), spy)
+
+      r.pub(a, 1)
+      r.complete(a)
+      expect(r.isCompleted(b)).toBe(false)
+      request.resolve('done')
+      await awaitCall(noop, 0)
+      expect(r.isCompleted(b)).toBe(true)
+      expect(spy.mock.calls).toEqual([['done']])
+    })
+  })
 })
@@ -1,6 +1,7 @@
 import { beforeEach, describe, expect, expectTypeOf, it, vi } from 'vitest'
-import { Action, Cell, DerivedCell, Realm, Signal, pipe } from '../..'
-import { filter, handlePromise, map } from '../../operators'
+import { Action, Cell, DerivedCell, Realm, Resource, Signal, VirtualScheduler, pipe, pub } from '../..'
+import { delay, filter, handlePromise, map } from '../../operators'
+import { noop } from '../../utils'
 
 describe('gurx cells/signals', () => {
   let r: Realm
@@ -475,6 +476,108 @@ describe('realm features', () => {
     expect(spy).toHaveBeenCalledTimes(1)
   })
 
+  it('disconnects nodes', () => {
+    const a = Signal<number>()
+    const b = Signal<number>()
+    const disconnect = r.connect<[number]>({
+      map: (done) => (value) => {
+        done(value * 2)
+      },
+      sink: b,
+      sources: [a],
+    })
+
+    const spy = vi.fn()
+    r.sub(b, spy)
+    r.pub(a, 2)
+    disconnect()
+    r.pub(a, 3)
+    expect(spy).toHaveBeenCalledWith(4)
+    expect(spy).toHaveBeenCalledTimes(1)
+  })
+
+  it('keeps the remaining connections of a node after disconnecting one of them', () => {
+    const a = Signal<number>()
+    const b = Signal<number>()
+    const c = Cell(0)
+    const unlinkB = r.link(a, b)
+    r.link(a, c)
+
+    const spy = vi.fn()
+    r.sub(b, spy)
+    r.pub(a, 1)
+    unlinkB()
+    r.pub(a, 2)
+    expect(spy).toHaveBeenCalledTimes(1)
+    expect(r.getValue(c)).toEqual(2)
+  })
+
+  it('disconnects pulls', () => {
+    const a = Cell(1)
+    const b = Signal<number>()
+    const disconnect = r.changeWith(a, b, (a, b) => a + b)
+    r.pub(b, 2)
+    disconnect()
+    r.pub(b, 2)
+    expect(r.getValue(a)).toEqual(3)
+  })
+
+  it('releases the operator nodes left without connections', () => {
+    const a = Signal<number>()
+    const b = r.signalInstance<number>()
+    r.pipe(
+      b,
+      map((value) => value * 2)
+    )
+    const unlink = r.link(a, b)
+    unlink()
+    expect(r.inspect().projections).toHaveLength(0)
+    expect(r.inspect().nodes.map(({ node }) => node)).toEqual([a])
+  })
+
+  it('tears down a pipe when its node is released', () => {
+    const scheduler = new VirtualScheduler()
+    r = new Realm({}, { scheduler })
+    const a = Signal<number>()
+    const spy = vi.fn()
+    const delayed$ = r.pipe(
+      a,
+      map((value) => value * 2),
+      delay(10)
+    )
+    r.sub(delayed$, spy)
+    r.pub(a, 1)
+    r.release(delayed$)
+    expect(scheduler.pendingCount).toEqual(0)
+    r.pub(a, 2)
+    expect(scheduler.pendingCount).toEqual(0)
+    expect(spy).not.toHaveBeenCalled()
+    expect(r.inspect().projections).toHaveLength(0)
+    expect(r.inspect().nodes.map(({ node }) => node)).toEqual([a])
+  })
+
+  it('tears down combined nodes and transformers when released', () => {
+    const a = Cell(1)
+    const b = Cell(2)
+    const c = Cell('')
+    const combined$ = r.combine(a, b)
+    const entry$ = r.transformer(map((value: number) => `num${value}`))(c)
+    r.release(combined$)
+    r.release(entry$)
+    expect(r.inspect().projections).toHaveLength(0)
+    expect(r.getValue(combined$)).toBeUndefined()
+  })
+
+  it('disconnects multiple subscriptions', () => {
+    const a = Cell('1')
+    const b = Cell('2')
+    const spy = vi.fn()
+    const unsub = r.subMultiple([a, b], spy)
+    unsub()
+    r.pub(a, '2')
+    expect(spy).toHaveBeenCalledTimes(0)
+  })
+
   it('pubs subscription for multiple keys when one is updated', () => {
     const a = Cell('1')
     const b = Cell('2')
@@ -486,6 +589,854 @@ describe('realm features', () => {
   })
 })
 
+describe('named nodes', () => {
+  it('accepts node options', () => {
+    const a = Cell(1, { name: 'named-options-a', distinct: false })
+    const b = Signal<number>({
+      init: (r) => {
+        r.link(b, a)
+      },
+    })
+    const r = new Realm()
+    const spy = vi.fn()
+    r.sub(a, spy)
+    r.pub(b, 1)
+    expect(spy).toHaveBeenCalledWith(1)
+  })
+
+  it('exports the values of the named cells', () => {
+    const a = Cell('foo', { name: 'export-a' })
+    const b = Cell('bar')
+    const r = new Realm()
+    r.register(a)
+    r.register(b)
+    r.pub(a, 'baz')
+    expect(r.exportState()).toEqual({ 'export-a': 'baz' })
+  })
+
+  it('imports the values of named cells', () => {
+    const a = Cell('foo', { name: 'import-a' })
+    const b = DerivedCell('', (r) =>
+      r.pipe(
+        a,
+        map((value) => `${value}-b`)
+      )
+    )
+    const r = new Realm()
+    r.register(b)
+    r.importState(JSON.parse('{"import-a":"bar"}'))
+    expect(r.getValues([a, b])).toEqual(['bar', 'bar-b'])
+  })
+
+  it('imports the values of named cells that are not registered yet', () => {
+    const a = Cell('foo', { name: 'import-unregistered-a' })
+    const r = new Realm()
+    r.importState({ 'import-unregistered-a': 'bar' })
+    expect(r.getValue(a)).toEqual('bar')
+  })
+
+  it('hydrates the named cells without a re-computation cycle', () => {
+    const a = Cell('foo', { name: 'hydrate-a' })
+    const b = Cell('bar', { name: 'hydrate-b' })
+    const r = new Realm()
+    const spy = vi.fn()
+    r.sub(a, spy)
+    r.hydrate({ 'hydrate-a': 'baz', 'hydrate-b': 'qux', 'unknown-name': 'mu' })
+    expect(r.getValues([a, b])).toEqual(['baz', 'qux'])
+    expect(spy).not.toHaveBeenCalled()
+  })
+
+  it('throws an error for unknown names', () => {
+    const r = new Realm()
+    expect(() => r.importState({ 'unknown-name': 'bar' })).toThrowError('There is no node with the name "unknown-name"')
+  })
+
+  it('throws an error for duplicate names', () => {
+    const a = Cell('foo', { name: 'duplicate' })
+    expect(() => Cell('bar', { name: 'duplicate' })).toThrowError('A node with the name "duplicate" is already defined')
+    const r = new Realm()
+    r.importState({ duplicate: 'baz' })
+    expect(r.getValue(a)).toEqual('baz')
+  })
+})
+
+describe('inspection', () => {
+  it('lists the registered nodes', () => {
+    const a = Cell('foo', { label: 'a' })
+    const b = Signal<number>({ name: 'inspect-b' })
+    const c = Action()
+    const r = new Realm()
+    r.sub(a, noop)
+    r.singletonSub(a, noop)
+    r.register(b)
+    r.register(c)
+
+    const { nodes } = r.inspect()
+    expect(nodes).toContainEqual({ node: a, kind: 'cell', label: 'a', value: 'foo', distinct: true, subscriberCount: 2, inherited: false })
+    expect(nodes).toContainEqual({
+      node: b,
+      kind: 'signal',
+      label: 'inspect-b',
+      value: undefined,
+      distinct: false,
+      subscriberCount: 0,
+      inherited: false,
+    })
+    expect(nodes).toContainEqual({
+      node: c,
+      kind: 'action',
+      label: undefined,
+      value: undefined,
+      distinct: false,
+      subscriberCount: 0,
+      inherited: false,
+    })
+  })
+
+  it('lists the connections', () => {
+    const a = Cell(1)
+    const b = Signal<number>()
+    const c = Cell(0)
+    const r = new Realm()
+    r.connect<[number, number]>({
+      map: (done) => (b, a) => {
+        done(a + b)
+      },
+      sources: [b],
+      pulls: [a],
+      sink: c,
+    })
+
+    expect(r.inspect().projections).toEqual([{ sources: [b], pulls: [a], sink: c }])
+  })
+
+  it('lists the instance nodes with their labels', () => {
+    const r = new Realm()
+    const a = r.cellInstance(1)
+    r.setLabel(a, 'instance')
+    expect(r.inspect().nodes).toContainEqual(expect.objectContaining({ node: a, kind: 'cell', label: 'instance', value: 1 }))
+  })
+})
+
+describe('snapshots', () => {
+  it('restores the cell values', () => {
+    const a = Cell('foo')
+    const b = Cell(1)
+    const r = new Realm()
+    r.register(a)
+    r.register(b)
+    const snapshot = r.snapshot()
+    r.pubIn({ [a]: 'bar', [b]: 2 })
+    r.restore(snapshot)
+    expect(r.getValues([a, b])).toEqual(['foo', 1])
+  })
+
+  it('recomputes the derived cells on restore', () => {
+    const a = Cell(1)
+    const b = DerivedCell(2, (r) =>
+      r.pipe(
+        a,
+        map((value) => value * 2)
+      )
+    )
+    const r = new Realm()
+    r.register(b)
+    const snapshot = r.snapshot()
+    r.pub(a, 2)
+    const spy = vi.fn()
+    r.sub(b, spy)
+    r.restore(snapshot)
+    expect(r.getValue(b)).toEqual(2)
+    expect(spy).toHaveBeenCalledTimes(1)
+  })
+
+  it('does not notify the subscribers of unchanged cells', () => {
+    const a = Cell('foo')
+    const b = Cell('bar')
+    const r = new Realm()
+    const spyA = vi.fn()
+    const spyB = vi.fn()
+    r.sub(a, spyA)
+    r.sub(b, spyB)
+    const snapshot = r.snapshot()
+    r.pub(a, 'baz')
+    r.restore(snapshot)
+    expect(spyA).toHaveBeenCalledTimes(2)
+    expect(spyB).toHaveBeenCalledTimes(0)
+  })
+
+  it('creates immutable snapshots', () => {
+    const r = new Realm()
+    expect(Object.isFrozen(r.snapshot())).toBe(true)
+  })
+})
+
+describe('child realms', () => {
+  it('reads the cells registered in the parent realm', () => {
+    const a = Cell('foo')
+    const parent = new Realm()
+    parent.pub(a, 'bar')
+    const child = new Realm({}, { parent })
+    expect(child.getValue(a)).toEqual('bar')
+  })
+
+  it('inherits the cells with initial values in the parent realm', () => {
+    const a = Cell('foo')
+    const parent = new Realm({ [a]: 'bar' })
+    const child = new Realm({}, { parent })
+    expect(child.getValue(a)).toEqual('bar')
+  })
+
+  it('registers cells that are not present in the parent locally', () => {
+    const a = Cell('foo')
+    const parent = new Realm()
+    const child = new Realm({}, { parent })
+    child.pub(a, 'bar')
+    expect(child.getValue(a)).toEqual('bar')
+    expect(parent.getValue(a)).toEqual('foo')
+  })
+
+  it('publishes into inherited cells through the parent realm', () => {
+    const a = Cell('foo')
+    const parent = new Realm()
+    parent.register(a)
+    const child = new Realm({}, { parent })
+    const parentSpy = vi.fn()
+    const childSpy = vi.fn()
+    parent.sub(a, parentSpy)
+    child.sub(a, childSpy)
+
+    child.pub(a, 'bar')
+    expect(parent.getValue(a)).toEqual('bar')
+    expect(parentSpy).toHaveBeenCalledWith('bar')
+    expect(childSpy).toHaveBeenCalledWith('bar')
+
+    parent.pub(a, 'baz')
+    expect(childSpy).toHaveBeenCalledWith('baz')
+    expect(childSpy).toHaveBeenCalledTimes(2)
+  })
+
+  it('supports local overrides of inherited cells', () => {
+    const a = Cell('foo')
+    const parent = new Realm()
+    parent.register(a)
+    const child = new Realm({ [a]: 'bar' }, { parent })
+    child.pub(a, 'baz')
+    expect(child.getValue(a)).toEqual('baz')
+    expect(parent.getValue(a)).toEqual('foo')
+  })
+
+  it('propagates inherited values through the child connections', () => {
+    const a = Cell(1)
+    const b = Cell(0)
+    const parent = new Realm()
+    parent.register(a)
+    const child = new Realm({}, { parent })
+    child.link(
+      child.pipe(
+        a,
+        map((value) => value * 2)
+      ),
+      b
+    )
+    parent.pub(a, 2)
+    expect(child.getValue(b)).toEqual(4)
+  })
+
+  it('forwards the values linked into inherited cells to the parent realm', () => {
+    const a = Cell(1)
+    const s = Signal<number>()
+    const parent = new Realm()
+    parent.register(a)
+    const child = new Realm({}, { parent })
+    const spy = vi.fn()
+    child.sub(a, spy)
+    child.link(s, a)
+    child.pub(s, 2)
+    expect(parent.getValue(a)).toEqual(2)
+    expect(spy).toHaveBeenCalledTimes(1)
+  })
+
+  it('stops receiving parent updates when disposed', () => {
+    const a = Cell(1)
+    const parent = new Realm()
+    parent.register(a)
+    const child = new Realm({}, { parent })
+    const spy = vi.fn()
+    child.sub(a, spy)
+    child.dispose()
+    parent.pub(a, 2)
+    expect(spy).not.toHaveBeenCalled()
+  })
+})
+
+describe('error handling', () => {
+  it('throws the errors by default and restores the current realm', () => {
+    const a = Signal<number>()
+    const r = new Realm()
+    r.sub(a, () => {
+      throw new Error('subscription error')
+    })
+    expect(() => r.pub(a, 1)).toThrowError('subscription error')
+    expect(() => pub(a, 1)).toThrowError('This function must be called within a realm instance')
+  })
+
+  it('continues the propagation after a subscription error', () => {
+    const a = Signal<number>()
+    const b = Cell(0)
+    const onError = vi.fn()
+    const r = new Realm({}, { errorPolicy: 'continue', onError })
+    r.link(a, b)
+    const spy = vi.fn()
+    const error = new Error('subscription error')
+    r.sub(a, () => {
+      throw error
+    })
+    r.sub(a, spy)
+    r.pub(a, 1)
+    expect(spy).toHaveBeenCalledWith(1)
+    expect(r.getValue(b)).toEqual(1)
+    expect(onError).toHaveBeenCalledWith({ error, node: a, source: 'subscription' })
+  })
+
+  it('does not emit from a node which map function throws', () => {
+    const a = Signal<number>()
+    const b = Cell(0)
+    const c = Cell(0)
+    const r = new Realm({}, { errorPolicy: 'continue' })
+    const errorSpy = vi.fn()
+    r.sub(r.error$, errorSpy)
+    r.link(
+      r.pipe(
+        a,
+        map(() => {
+          throw new Error('map error')
+        })
+      ),
+      b
+    )
+    r.link(a, c)
+    r.pub(a, 1)
+    expect(r.getValues([b, c])).toEqual([0, 1])
+    expect(errorSpy).toHaveBeenCalledWith(expect.objectContaining({ source: 'projection' }))
+  })
+
+  it('rolls back the cell values changed in the cycle', () => {
+    const a = Cell(0)
+    const b = Cell(0)
+    const onError = vi.fn()
+    const r = new Realm({}, { errorPolicy: 'rollback', onError })
+    r.link(
+      r.pipe(
+        a,
+        map((value) => {
+          if (value > 1) {
+            throw new Error('too big')
+          }
+          return value
+        })
+      ),
+      b
+    )
+    r.pub(a, 1)
+    expect(r.getValues([a, b])).toEqual([1, 1])
+    r.pub(a, 2)
+    expect(r.getValues([a, b])).toEqual([1, 1])
+    expect(onError).toHaveBeenCalledTimes(1)
+  })
+
+  it('re-throws the caught errors when there is no error channel', () => {
+    const a = Signal<number>()
+    const r = new Realm({}, { errorPolicy: 'continue' })
+    const spy = vi.fn()
+    r.sub(a, () => {
+      throw new Error('subscription error')
+    })
+    r.sub(a, spy)
+    expect(() => r.pub(a, 1)).toThrowError('subscription error')
+    expect(spy).toHaveBeenCalled()
+  })
+
+  it('throws the reported errors when they are not handled', () => {
+    const a = Signal<number>()
+    const error = new Error('async error')
+    const r = new Realm()
+    expect(() => r.reportError({ error, node: a, source: 'projection' })).toThrowError('async error')
+    const errorSpy = vi.fn()
+    r.sub(r.error$, errorSpy)
+    r.reportError({ error, node: a, source: 'projection' })
+    expect(errorSpy).toHaveBeenCalledWith({ error, node: a, source: 'projection' })
+  })
+})
+
+describe('multiple connections to a node', () => {
+  it('runs only the connections which sources have emitted', () => {
+    const a = Signal<number>()
+    const b = Cell(0)
+    const c = Signal<number>()
+    const r = new Realm()
+    r.link(a, c)
+    r.link(b, c)
+    const spy = vi.fn()
+    r.sub(c, spy)
+
+    r.pub(a, 1)
+    expect(spy).toHaveBeenCalledWith(1)
+    r.pub(b, 2)
+    expect(spy).toHaveBeenLastCalledWith(2)
+  })
+})
+
+describe('completion', () => {
+  it('calls the completion handlers and ignores further values', () => {
+    const a = Signal<number>()
+    const r = new Realm()
+    const spy = vi.fn()
+    const onComplete = vi.fn()
+    r.sub(a, spy)
+    r.onComplete(a, onComplete)
+
+    r.complete(a)
+    r.pub(a, 1)
+    expect(onComplete).toHaveBeenCalledTimes(1)
+    expect(spy).not.toHaveBeenCalled()
+    expect(r.isCompleted(a)).toBe(true)
+
+    const lateHandler = vi.fn()
+    r.onComplete(a, lateHandler)
+    expect(lateHandler).toHaveBeenCalledTimes(1)
+  })
+
+  it('propagates to the operator nodes and detaches them', () => {
+    const a = Signal<number>()
+    const r = new Realm()
+    const b = r.pipe(
+      a,
+      map((value) => value * 2),
+      filter((value) => value > 2)
+    )
+    const onComplete = vi.fn()
+    r.onComplete(b, onComplete)
+    expect(r.inspect().projections).toHaveLength(2)
+
+    r.complete(a)
+    expect(onComplete).toHaveBeenCalledTimes(1)
+    expect(r.inspect().projections).toHaveLength(0)
+  })
+
+  it('does not complete a node while some of its sources are active', () => {
+    const a = Signal<number>()
+    const b = Signal<number>()
+    const r = new Realm()
+    const c = r.combine(a, b)
+    const spy = vi.fn()
+    r.sub(c, spy)
+
+    r.complete(a)
+    expect(r.isCompleted(c)).toBe(false)
+    r.pub(b, 1)
+    expect(spy).toHaveBeenCalledTimes(1)
+    r.complete(b)
+    expect(r.isCompleted(c)).toBe(true)
+  })
+
+  it('does not propagate to nodes with definitions', () => {
+    const a = Signal<number>()
+    const b = Cell(0)
+    const r = new Realm()
+    r.link(a, b)
+
+    r.complete(a)
+    expect(r.isCompleted(b)).toBe(false)
+    r.pub(b, 1)
+    expect(r.getValue(b)).toEqual(1)
+  })
+
+  it('defers the completion requested during a computation cycle', () => {
+    const a = Signal<number>()
+    const r = new Realm()
+    const calls: string[] = []
+    r.sub(a, (value) => {
+      r.complete(a)
+      calls.push(`value ${value}`)
+    })
+    r.sub(a, () => {
+      calls.push('second subscription')
+    })
+    r.onComplete(a, () => calls.push('complete'))
+
+    r.pub(a, 1)
+    expect(calls).toEqual(['value 1', 'second subscription', 'complete'])
+  })
+
+  it('releases node instances with their remaining connections', () => {
+    const a = Cell(0)
+    const r = new Realm()
+    const local$ = r.cellInstance(1)
+    const completed = vi.fn()
+    r.onComplete(local$, completed)
+    r.link(r.combine(local$, a), r.signalInstance())
+    r.release(local$)
+    expect(completed).toHaveBeenCalledTimes(1)
+    expect(r.getValue(local$)).toBeUndefined()
+    expect(r.inspect().projections).toHaveLength(1)
+    expect(() => r.release(a)).toThrowError('Only the nodes created with cellInstance and signalInstance can be released')
+  })
+})
+
+describe('transactions', () => {
+  it('merges the values published in the transaction into a single cycle', () => {
+    const a = Cell(0)
+    const b = Cell(0)
+    const r = new Realm()
+    const spy = vi.fn()
+    r.subMultiple([a, b], spy)
+    const result = r.transaction(() => {
+      r.pub(a, 1)
+      r.transaction(() => {
+        r.pub(b, 2)
+      })
+      expect(r.getValues([a, b])).toEqual([0, 0])
+      return 'done'
+    })
+    expect(result).toEqual('done')
+    expect(spy).toHaveBeenCalledTimes(1)
+    expect(spy).toHaveBeenCalledWith([1, 2])
+  })
+
+  it('delivers each value of a signal published multiple times in the transaction', () => {
+    const add$ = Signal<string>()
+    const items$ = Cell<string[]>([], (r) => {
+      r.changeWith(items$, add$, (items, item) => [...items, item])
+    })
+    const a = Cell(0)
+    const r = new Realm()
+    r.register(items$)
+    r.transaction(() => {
+      r.pub(a, 1)
+      r.pub(add$, 'a')
+      r.pub(a, 2)
+      r.pub(add$, 'b')
+    })
+    expect(r.getValue(items$)).toEqual(['a', 'b'])
+    expect(r.getValue(a)).toEqual(2)
+  })
+
+  it('discards the published values if the transaction throws', () => {
+    const a = Cell(0)
+    const r = new Realm()
+    const spy = vi.fn()
+    r.sub(a, spy)
+    expect(() =>
+      r.transaction(() => {
+        r.pub(a, 1)
+        throw new Error('failed')
+      })
+    ).toThrowError('failed')
+    expect(r.getValue(a)).toEqual(0)
+    expect(spy).not.toHaveBeenCalled()
+  })
+
+  it('notifies the subscribers after all cell values are committed', () => {
+    const a = Signal<number>()
+    const b = Cell(0)
+    const c = Cell(0)
+    const r = new Realm()
+    r.link(a, b)
+    r.link(a, c)
+    const spy = vi.fn()
+    r.sub(b, () => {
+      spy(r.getValue(c))
+    })
+    r.pub(a, 1)
+    expect(spy).toHaveBeenCalledWith(1)
+  })
+
+  it('does not commit any value if a projection fails with the rollback policy', () => {
+    const a = Signal<number>()
+    const b = Cell(0)
+    const c = Cell(0)
+    const r = new Realm({}, { errorPolicy: 'rollback', onError: noop })
+    const spy = vi.fn()
+    r.link(a, b)
+    r.link(
+      r.pipe(
+        b,
+        map(() => {
+          throw new Error('map error')
+        })
+      ),
+      c
+    )
+    r.sub(b, spy)
+    r.pub(a, 1)
+    expect(r.getValues([b, c])).toEqual([0, 0])
+    expect(spy).not.toHaveBeenCalled()
+  })
+  it('discards the values published by subscriptions if a later subscription fails with the rollback policy', () => {
+    const a = Cell(0)
+    const b = Cell(0)
+    const r = new Realm({}, { errorPolicy: 'rollback', onError: noop })
+    r.sub(a, (value) => {
+      r.pub(b, value * 10)
+    })
+    const fail = r.sub(a, () => {
+      throw new Error('subscription error')
+    })
+    r.pub(a, 1)
+    expect(r.getValues([a, b])).toEqual([0, 0])
+
+    fail()
+    r.pub(a, 2)
+    expect(r.getValues([a, b])).toEqual([2, 20])
+  })
+})
+
+describe('deferred notifications', () => {
+  it('propagates the values published by subscriptions after the current cycle', () => {
+    const a = Signal<number>()
+    const b = Cell(0)
+    const r = new Realm({}, { notifications: 'deferred' })
+    const calls: string[] = []
+    r.sub(a, (value) => {
+      r.pub(b, value)
+      calls.push(`first a ${r.getValue(b)}`)
+    })
+    r.sub(a, () => {
+      calls.push(`second a ${r.getValue(b)}`)
+    })
+    r.sub(b, (value) => {
+      calls.push(`b ${value}`)
+    })
+    r.pub(a, 1)
+    expect(calls).toEqual(['first a 0', 'second a 0', 'b 1'])
+  })
+
+  it('runs the queued publishes in FIFO order', () => {
+    const a = Signal<number>()
+    const b = Signal<string>()
+    const c = Signal<string>()
+    const r = new Realm({}, { notifications: 'deferred' })
+    const calls: string[] = []
+    r.sub(a, () => {
+      r.pub(b, 'b')
+      r.pub(c, 'c')
+    })
+    r.sub(b, (value) => {
+      r.pub(c, `${value} c`)
+      calls.push(value)
+    })
+    r.sub(c, (value) => {
+      calls.push(value)
+    })
+    r.pub(a, 1)
+    expect(calls).toEqual(['b', 'c', 'b c'])
+  })
+
+  it('starts nested cycles right away in the sync mode', () => {
+    const a = Signal<number>()
+    const b = Cell(0)
+    const r = new Realm()
+    const calls: string[] = []
+    r.sub(a, (value) => {
+      r.pub(b, value)
+    })
+    r.sub(a, () => {
+      calls.push(`a ${r.getValue(b)}`)
+    })
+    r.sub(b, (value) => {
+      calls.push(`b ${value}`)
+    })
+    r.pub(a, 1)
+    expect(calls).toEqual(['b 1', 'a 1'])
+  })
+})
+
+describe('resources', () => {
+  it('loads the data when registered', async () => {
+    const { state$ } = Resource(() => Promise.resolve('foo'), [], { initialData: 'initial' })
+    const r = new Realm()
+    expect(r.getValue(state$)).toMatchObject({ status: 'loading', data: 'initial' })
+    await Promise.resolve()
+    expect(r.getValue(state$)).toEqual({ status: 'success', data: 'foo', error: undefined })
+  })
+
+  it('reloads the data when the dependencies change and aborts the previous load', async () => {
+    const id$ = Cell(1)
+    const signals: AbortSignal[] = []
+    const { state$ } = Resource(
+      ([id]: [number], signal) => {
+        signals.push(signal)
+        return Promise.resolve(`item ${id}`)
+      },
+      [id$]
+    )
+    const r = new Realm()
+    r.register(state$)
+    r.pub(id$, 2)
+    expect(signals[0].aborted).toBe(true)
+    await Promise.resolve()
+    expect(r.getValue(state$)).toEqual({ status: 'success', data: 'item 2', error: undefined })
+  })
+
+  it('keeps the stale data while refetching and reports errors', async () => {
+    let fail = false
+    const { state$, refetch$ } = Resource(() => (fail ? Promise.reject(new Error('failed')) : Promise.resolve('foo')))
+    const r = new Realm()
+    r.register(state$)
+    await Promise.resolve()
+    fail = true
+    r.pub(refetch$)
+    expect(r.getValue(state$)).toMatchObject({ status: 'loading', data: 'foo' })
+    await Promise.resolve()
+    expect(r.getValue(state$)).toEqual({ status: 'error', data: 'foo', error: new Error('failed') })
+  })
+})
+
+describe('realm disposal', () => {
+  it('runs the registered cleanups', () => {
+    const cleanup = vi.fn()
+    const a = Signal<number>((r) => {
+      r.onDispose(cleanup)
+    })
+    const r = new Realm()
+    r.register(a)
+    r.dispose()
+    r.dispose()
+    expect(cleanup).toHaveBeenCalledTimes(1)
+    expect(r.isDisposed).toBe(true)
+  })
+
+  it('does not run removed cleanups', () => {
+    const cleanup = vi.fn()
+    const r = new Realm()
+    const remove = r.onDispose(cleanup)
+    remove()
+    r.dispose()
+    expect(cleanup).not.toHaveBeenCalled()
+  })
+
+  it('throws when publishing into a disposed realm', () => {
+    const a = Cell(1)
+    const r = new Realm()
+    r.dispose()
+    expect(() => r.pub(a, 2)).toThrowError('Cannot publish into a disposed realm')
+  })
+
+  it('ignores promises that resolve after disposal', async () => {
+    const r = new Realm()
+    const s = Signal<Promise<string>>()
+    const spy = vi.fn()
+    r.sub(
+      r.pipe(
+        s,
+        handlePromise(
+          () => 'loading',
+          (value) => value,
+          (error) => error
+        )
+      ),
+      spy
+    )
+    r.pub(s, Promise.resolve('loaded'))
+    r.dispose()
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    expect(spy).toHaveBeenCalledTimes(1)
+    expect(spy).toHaveBeenCalledWith('loading')
+  })
+})
+
+describe('scopes', () => {
+  it('removes the subscriptions and connections created in the scope', () => {
+    const a = Cell(1)
+    const b = Cell(0)
+    const spy = vi.fn()
+    const r = new Realm()
+    const dispose = r.scope(() => {
+      r.link(
+        r.pipe(
+          a,
+          map((value) => value * 2)
+        ),
+        b
+      )
+      r.sub(b, spy)
+    })
+    r.pub(a, 2)
+    expect(spy).toHaveBeenCalledWith(4)
+    dispose()
+    r.pub(a, 3)
+    expect(r.getValue(b)).toEqual(4)
+    expect(spy).toHaveBeenCalledTimes(1)
+    expect(r.inspect().projections).toHaveLength(0)
+  })
+
+  it('runs the cleanups registered in the scope', () => {
+    const cleanup = vi.fn()
+    const r = new Realm()
+    const dispose = r.scope(() => {
+      r.onDispose(cleanup)
+    })
+    dispose()
+    expect(cleanup).toHaveBeenCalledTimes(1)
+    r.dispose()
+    expect(cleanup).toHaveBeenCalledTimes(1)
+  })
+
+  it('disposes the nested scopes with the outer scope', () => {
+    const a = Signal<number>()
+    const spy = vi.fn()
+    const r = new Realm()
+    const dispose = r.scope(() => {
+      r.scope(() => {
+        r.sub(a, spy)
+      })
+    })
+    dispose()
+    r.pub(a, 1)
+    expect(spy).not.toHaveBeenCalled()
+  })
+
+  it('releases the node instances created in the scope', () => {
+    const total$ = Cell(0)
+    const r = new Realm()
+    r.register(total$)
+    const nodeCount = r.inspect().nodes.length
+    for (let index = 0; index < 10; index++) {
+      const local$ = r.cellInstance(index)
+      const dispose = r.scope(() => {
+        r.link(
+          r.pipe(
+            local$,
+            map((value) => value * 2)
+          ),
+          total$
+        )
+      })
+      r.pub(local$, index + 1)
+      dispose()
+      r.release(local$)
+    }
+    expect(r.getValue(total$)).toEqual(20)
+    expect(r.inspect().nodes).toHaveLength(nodeCount)
+    expect(r.inspect().projections).toHaveLength(0)
+  })
+
+  it('does not collect the wiring of the node definitions registered in the scope', () => {
+    const a = Cell(1)
+    const b = Cell(0, (r) => {
+      r.link(a, b)
+    })
+    const r = new Realm()
+    const dispose = r.scope(() => {
+      r.sub(b, noop)
+    })
+    dispose()
+    r.pub(a, 2)
+    expect(r.getValue(b)).toEqual(2)
+  })
+})
+
 describe('singleton subscription', () => {
   it('calls the subscription', () => {
     const r = new Realm()
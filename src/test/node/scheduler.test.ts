@@ -0,0 +1,70 @@
+import { describe, expect, it, vi } from 'vitest'
+import { Realm, Signal, VirtualScheduler, defaultScheduler } from '../..'
+import { delayWithMicrotask } from '../../operators'
+
+describe('virtual scheduler', () => {
+  it('runs the due timers in order when advancing the time', () => {
+    const scheduler = new VirtualScheduler()
+    const calls: string[] = []
+    scheduler.schedule(() => calls.push(`b ${scheduler.now()}`), 20)
+    scheduler.schedule(() => calls.push(`a ${scheduler.now()}`), 10)
+    scheduler.schedule(() => calls.push(`c ${scheduler.now()}`), 20)
+
+    scheduler.advanceBy(15)
+    expect(calls).toEqual(['a 10'])
+    expect(scheduler.now()).toEqual(15)
+    scheduler.advanceBy(5)
+    expect(calls).toEqual(['a 10', 'b 20', 'c 20'])
+  })
+
+  it('cancels the scheduled timers', () => {
+    const scheduler = new VirtualScheduler()
+    const spy = vi.fn()
+    const cancel = scheduler.schedule(spy, 10)
+    cancel()
+    scheduler.runAll()
+    expect(spy).not.toHaveBeenCalled()
+    expect(scheduler.pendingCount).toEqual(0)
+  })
+
+  it('flushes the microtasks after each timer', () => {
+    const scheduler = new VirtualScheduler()
+    const calls: string[] = []
+    scheduler.schedule(() => {
+      scheduler.queueMicrotask(() => calls.push('microtask'))
+    }, 10)
+    scheduler.schedule(() => calls.push('timer'), 10)
+    scheduler.runAll()
+    expect(calls).toEqual(['microtask', 'timer'])
+    expect(scheduler.now()).toEqual(10)
+  })
+
+  it('throws if the timers keep re-scheduling themselves', () => {
+    const scheduler = new VirtualScheduler()
+    const tick = () => {
+      scheduler.schedule(tick, 10)
+    }
+    tick()
+    expect(() => scheduler.runAll(5)).toThrowError('The virtual scheduler has not finished after 5 steps')
+  })
+
+  it('is used by the operators of the realm', () => {
+    const scheduler = new VirtualScheduler()
+    const r = new Realm({}, { scheduler })
+    const a = Signal<number>()
+    const spy = vi.fn()
+    r.sub(r.pipe(a, delayWithMicrotask()), spy)
+
+    r.pub(a, 1)
+    expect(spy).not.toHaveBeenCalled()
+    scheduler.flushMicrotasks()
+    expect(spy).toHaveBeenCalledWith(1)
+  })
+
+  it('is inherited by child realms', () => {
+    const scheduler = new VirtualScheduler()
+    const parent = new Realm({}, { scheduler })
+    expect(new Realm({}, { parent }).scheduler).toBe(scheduler)
+    expect(new Realm().scheduler).toBe(defaultScheduler)
+  })
+})
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import { Cell, Signal } from '../..'
+import { debounceTime, filter, map } from '../../operators'
+import { testMarbles } from '../../testing'
+
+describe('marble testing', () => {
+  it('runs the inputs through the pipeline', () => {
+    const a = Signal<number>()
+    testMarbles((m) => {
+      const b = m.realm.pipe(
+        a,
+        map((value) => value * 2)
+      )
+      m.input(a, '-a-b', { a: 1, b: 2 })
+      m.expect(b, '-a-b', { a: 2, b: 4 })
+    })
+  })
+
+  it('reports the mismatching emissions', () => {
+    const a = Signal<number>({ name: 'source' })
+    expect(() =>
+      testMarbles((m) => {
+        const b = m.realm.pipe(
+          a,
+          filter((value) => value > 1)
+        )
+        m.input(a, 'ab', { a: 1, b: 2 })
+        m.expect(b, 'ab', { a: 1, b: 2 })
+      })
+    ).toThrowError(['  expected: ab', '  actual:   -b', '  actual emissions:', '    frame 1: 2'].join('\n'))
+  })
+
+  it('does not record the values suppressed by distinct cells', () => {
+    const a = Cell('x')
+    testMarbles((m) => {
+      m.input(a, 'aab')
+      m.expect(a, 'a-b')
+    })
+  })
+
+  it('publishes the inputs of the same frame in a single cycle', () => {
+    const a = Cell(0)
+    const b = Cell(0)
+    testMarbles((m) => {
+      const sum = m.realm.pipe(
+        m.realm.combine(a, b),
+        map(([a, b]) => a + b)
+      )
+      m.input(a, '-a', { a: 1 })
+      m.input(b, '-a(bc)', { a: 2, b: 3, c: 4 })
+      m.expect(sum, '-a(bc)', { a: 3, b: 4, c: 5 })
+    })
+  })
+
+  it('advances the virtual clock with each frame', () => {
+    const a = Signal<string>()
+    testMarbles(
+      (m) => {
+        m.input(a, 'ab----c')
+        m.expect(m.realm.pipe(a, debounceTime(30)), '----b---')
+      },
+      { frameTime: 10 }
+    )
+  })
+})
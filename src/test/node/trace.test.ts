@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest'
+import { Cell, Realm, Signal, createTraceRecorder } from '../..'
+import { filter, map } from '../../operators'
+
+describe('propagation trace', () => {
+  it('records the nodes visited in a cycle', () => {
+    const a = Signal<number>({ label: 'a' })
+    const b = Cell(0, { label: 'b' })
+    const recorder = createTraceRecorder()
+    const r = new Realm({}, { tracer: recorder.tracer })
+    const even = r.pipe(
+      a,
+      filter((value) => value % 2 === 0)
+    )
+    r.setLabel(even, 'even')
+    r.link(
+      r.pipe(
+        a,
+        map((value) => value * 2)
+      ),
+      b
+    )
+    r.sub(b, function logB() {})
+    recorder.clear()
+
+    r.pub(a, 1)
+    expect(recorder.events).toEqual([
+      { type: 'cycleStart', cycle: 1, values: [{ node: 'a', value: 1 }] },
+      { type: 'nodeResolved', cycle: 1, node: 'a', value: 1 },
+      expect.objectContaining({ type: 'nodeResolved', value: 2 }),
+      { type: 'nodeResolved', cycle: 1, node: 'b', value: 2 },
+      { type: 'nodeCancelled', cycle: 1, node: 'even' },
+      { type: 'subscription', cycle: 1, node: 'b', subscription: 'logB' },
+      { type: 'cycleEnd', cycle: 1 },
+    ])
+  })
+
+  it('records the nodes cancelled because their sources have not emitted', () => {
+    const a = Signal<number>({ label: 'a' })
+    const recorder = createTraceRecorder()
+    const r = new Realm({}, { tracer: recorder.tracer })
+    const filtered = r.pipe(
+      a,
+      filter((value) => value % 2 === 0)
+    )
+    const mapped = r.pipe(
+      filtered,
+      map((value) => value * 2)
+    )
+    r.setLabel(filtered, 'filtered')
+    r.setLabel(mapped, 'mapped')
+    recorder.clear()
+
+    r.pub(a, 1)
+    expect(recorder.events).toEqual([
+      { type: 'cycleStart', cycle: 1, values: [{ node: 'a', value: 1 }] },
+      { type: 'nodeResolved', cycle: 1, node: 'a', value: 1 },
+      { type: 'nodeCancelled', cycle: 1, node: 'filtered' },
+      { type: 'nodeCancelled', cycle: 1, node: 'mapped' },
+      { type: 'cycleEnd', cycle: 1 },
+    ])
+  })
+
+  it('records the distinct suppression', () => {
+    const a = Cell('foo', { label: 'a' })
+    const recorder = createTraceRecorder()
+    const r = new Realm({}, { tracer: recorder.tracer })
+    r.pub(a, 'foo')
+    expect(recorder.events).toContainEqual({
+      type: 'distinctSuppressed',
+      cycle: 1,
+      node: 'a',
+      comparator: 'defaultComparator',
+      value: 'foo',
+    })
+    expect(recorder.events).toContainEqual({ type: 'nodeCancelled', cycle: 1, node: 'a' })
+  })
+
+  it('can be enabled and disabled at runtime', () => {
+    const a = Cell('foo')
+    const recorder = createTraceRecorder()
+    const r = new Realm()
+    r.pub(a, 'bar')
+    r.setTracer(recorder.tracer)
+    r.pub(a, 'baz')
+    r.setTracer(undefined)
+    r.pub(a, 'qux')
+    expect(recorder.events.filter((event) => event.type === 'cycleStart')).toEqual([
+      { type: 'cycleStart', cycle: 2, values: [{ node: 'node#1', value: 'baz' }] },
+    ])
+  })
+
+  it('serializes the events as JSON', () => {
+    const a = Signal<symbol>({ label: 'a' })
+    const recorder = createTraceRecorder()
+    const r = new Realm({}, { tracer: recorder.tracer })
+    r.pub(a, Symbol('value'))
+    expect(JSON.parse(recorder.serialize())[0]).toEqual({ type: 'cycleStart', cycle: 1, values: [{ node: 'a', value: 'Symbol(value)' }] })
+  })
+})
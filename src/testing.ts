@@ -0,0 +1,264 @@
+import { type NodeRef, Realm, type RealmOptions } from './realm'
+import { VirtualScheduler } from './scheduler'
+
+interface MarbleFrame {
+  frame: number
+  values: unknown[]
+}
+
+interface ParsedMarbles {
+  frames: MarbleFrame[]
+  length: number
+}
+
+interface MarbleExpectation {
+  node: NodeRef
+  marbles: string
+  values: Record<string, unknown> | undefined
+  expected: ParsedMarbles
+  actual: MarbleFrame[]
+}
+
+/**
+ * The options accepted by {@link testMarbles}.
+ * @category Testing
+ */
+export interface MarbleOptions {
+  /**
+   * The virtual time in milliseconds that a single marble frame takes. Defaults to 1.
+   */
+  frameTime?: number
+  /**
+   * The initial cell values of the realm.
+   */
+  initialValues?: Record<symbol, unknown>
+  /**
+   * Additional realm options. The scheduler of the realm is always a {@link VirtualScheduler}.
+   */
+  realmOptions?: Omit<RealmOptions, 'scheduler'>
+}
+
+/**
+ * The helpers passed to the {@link testMarbles} callback.
+ * @category Testing
+ */
+export interface MarbleContext {
+  /**
+   * The realm the marbles are run against.
+   */
+  realm: Realm
+  /**
+   * The virtual scheduler of the realm.
+   */
+  scheduler: VirtualScheduler
+  /**
+   * Publishes the values described by the marble string into the node.
+   * @param values - maps the marble characters to values. Characters without a mapping are published as strings.
+   */
+  input<T>(node: NodeRef<T>, marbles: string, values?: Record<string, T>): void
+  /**
+   * Asserts that the node emits the values described by the marble string.
+   * @param values - maps the marble characters to values. Characters without a mapping stand for themselves as strings.
+   */
+  expect<T>(node: NodeRef<T>, marbles: string, values?: Record<string, T>): void
+}
+
+/**
+ * Runs a pipeline described with marble strings against a realm with a virtual clock, and throws a readable error if the emitted values differ from the expected ones.
+ *
+ * Each character of a marble string is a frame: `-` is a frame without emissions, any other character is an emission.
+ * Values grouped in parentheses, like `(ab)`, are emitted in the same frame. Whitespace is ignored.
+ * The input values of different nodes in the same frame are published together through a single `pubIn` call.
+ * The emissions after the last frame of the longest marble string are not recorded.
+ * @param fn - sets up the nodes, the inputs and the expectations.
+ * @param options - see {@link MarbleOptions}.
+ * @example
+ * ```ts
+ * import { testMarbles } from '@mdxeditor/gurx/testing'
+ *
+ * testMarbles((m) => {
+ *   const doubled$ = m.realm.pipe(count$, map((value) => value * 2))
+ *   m.input(count$, '-a-b', { a: 1, b: 2 })
+ *   m.expect(doubled$, '-a-b', { a: 2, b: 4 })
+ * })
+ * ```
+ * @category Testing
+ */
+export function testMarbles(fn: (m: MarbleContext) => void, { frameTime = 1, initialValues, realmOptions }: MarbleOptions = {}) {
+  const scheduler = new VirtualScheduler()
+  const realm = new Realm(initialValues, { ...realmOptions, scheduler })
+  const inputs: { node: NodeRef; frames: MarbleFrame[] }[] = []
+  const expectations: MarbleExpectation[] = []
+  let length = 0
+
+  fn({
+    realm,
+    scheduler,
+    input(node, marbles, values) {
+      const parsed = parseMarbles(marbles, values)
+      length = Math.max(length, parsed.length)
+      inputs.push({ node, frames: parsed.frames })
+    },
+    expect(node, marbles, values) {
+      const expected = parseMarbles(marbles, values)
+      length = Math.max(length, expected.length)
+      const actual: MarbleFrame[] = []
+      realm.sub(node, (value) => {
+        const frame = Math.floor(scheduler.now() / frameTime)
+        const last = actual[actual.length - 1]
+        if (last?.frame === frame) {
+          last.values.push(value)
+        } else {
+          actual.push({ frame, values: [value] })
+        }
+      })
+      expectations.push({ node, marbles, values, expected, actual })
+    },
+  })
+
+  for (let frame = 0; frame < length; frame++) {
+    scheduler.advanceTo(frame * frameTime)
+    const emissions = inputs.flatMap(({ node, frames }) => frames.filter((f) => f.frame === frame).map(({ values }) => ({ node, values })))
+    const depth = Math.max(0, ...emissions.map(({ values }) => values.length))
+    for (let index = 0; index < depth; index++) {
+      const batch: Record<symbol, unknown> = {}
+      for (const { node, values } of emissions) {
+        if (index < values.length) {
+          batch[node] = values[index]
+        }
+      }
+      realm.pubIn(batch)
+    }
+  }
+  scheduler.flushMicrotasks()
+  realm.dispose()
+
+  const failures = expectations.filter(({ expected, actual }) => !framesEqual(expected.frames, actual)).map(describeFailure)
+  if (failures.length > 0) {
+    throw new Error(failures.join('\n\n'))
+  }
+}
+
+function parseMarbles(marbles: string, values: Record<string, unknown> | undefined): ParsedMarbles {
+  const frames: MarbleFrame[] = []
+  let frame = 0
+  let group: unknown[] | null = null
+  for (const char of marbles) {
+    if (/\s/.test(char)) {
+      continue
+    }
+    if (char === '(') {
+      if (group !== null) {
+        throw new Error(`Nested groups are not supported in the marbles "${marbles}"`)
+      }
+      group = []
+      continue
+    }
+    if (char === ')') {
+      if (group === null) {
+        throw new Error(`Unexpected ")" in the marbles "${marbles}"`)
+      }
+      if (group.length > 0) {
+        frames.push({ frame, values: group })
+      }
+      group = null
+      frame++
+      continue
+    }
+    if (char === '-') {
+      if (group !== null) {
+        throw new Error(`Unexpected "-" within a group in the marbles "${marbles}"`)
+      }
+      frame++
+      continue
+    }
+    const value = values !== undefined && Object.prototype.hasOwnProperty.call(values, char) ? values[char] : char
+    if (group !== null) {
+      group.push(value)
+    } else {
+      frames.push({ frame, values: [value] })
+      frame++
+    }
+  }
+  if (group !== null) {
+    throw new Error(`Unclosed group in the marbles "${marbles}"`)
+  }
+  return { frames, length: frame }
+}
+
+function framesEqual(expected: MarbleFrame[], actual: MarbleFrame[]) {
+  return (
+    expected.length === actual.length &&
+    expected.every(
+      (frame, index) =>
+        frame.frame === actual[index].frame &&
+        frame.values.length === actual[index].values.length &&
+        frame.values.every((value, valueIndex) => valuesEqual(value, actual[index].values[valueIndex]))
+    )
+  )
+}
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) {
+    return true
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, index) => valuesEqual(value, b[index]))
+  }
+  if (a !== null && b !== null && typeof a === 'object' && typeof b === 'object' && !Array.isArray(a) && !Array.isArray(b)) {
+    const aKeys = Object.keys(a)
+    const bKeys = Object.keys(b)
+    return (
+      aKeys.length === bKeys.length &&
+      aKeys.every((key) => Object.prototype.hasOwnProperty.call(b, key) && valuesEqual(a[key as keyof typeof a], b[key as keyof typeof b]))
+    )
+  }
+  return false
+}
+
+function renderMarbles(frames: MarbleFrame[], values: Record<string, unknown> | undefined) {
+  const length = frames.length > 0 ? frames[frames.length - 1].frame + 1 : 0
+  const renderValue = (value: unknown) => {
+    if (values !== undefined) {
+      const char = Object.keys(values).find((key) => valuesEqual(values[key], value))
+      if (char !== undefined) {
+        return char
+      }
+    }
+    return typeof value === 'string' && value.length === 1 ? value : '?'
+  }
+  let result = ''
+  for (let frame = 0; frame < length; frame++) {
+    const frameValues = frames.find((f) => f.frame === frame)?.values ?? []
+    if (frameValues.length === 0) {
+      result += '-'
+    } else if (frameValues.length === 1) {
+      result += renderValue(frameValues[0])
+    } else {
+      result += `(${frameValues.map(renderValue).join('')})`
+    }
+  }
+  return result
+}
+
+function formatValue(value: unknown) {
+  if (typeof value === 'string') {
+    return JSON.stringify(value)
+  }
+  try {
+    return JSON.stringify(value) ?? String(value)
+  } catch {
+    return String(value)
+  }
+}
+
+function describeFailure({ node, marbles, values, actual }: MarbleExpectation) {
+  const emissions = actual.flatMap(({ frame, values }) => values.map((value) => `    frame ${frame}: ${formatValue(value)}`))
+  return [
+    `The emissions of ${String(node)} do not match the marbles.`,
+    `  expected: ${marbles.replace(/\s/g, '')}`,
+    `  actual:   ${renderMarbles(actual, values)}`,
+    '  actual emissions:',
+    ...(emissions.length > 0 ? emissions : ['    none']),
+  ].join('\n')
+}
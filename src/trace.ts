@@ -0,0 +1,129 @@
+/**
+ * A node value published at the start of a computation cycle.
+ * @category Tracing
+ */
+export interface TracedValue {
+  /**
+   * The id of the node. Uses the debug label or the name of the node, if present.
+   */
+  node: string
+  /**
+   * The published value.
+   */
+  value: unknown
+}
+
+/**
+ * A structured event emitted during a computation cycle of a realm. Each cycle (e.g. a single `pub` or `pubIn` call) has a sequential number.
+ * @category Tracing
+ */
+export type TraceEvent =
+  | {
+      /** The cycle has started with the published values. */
+      type: 'cycleStart'
+      cycle: number
+      values: TracedValue[]
+    }
+  | {
+      /** The node has resolved with a value and will notify its subscribers. */
+      type: 'nodeResolved'
+      cycle: number
+      node: string
+      value: unknown
+    }
+  | {
+      /** The node has not emitted a value in this cycle, either by itself or because none of its sources has emitted. */
+      type: 'nodeCancelled'
+      cycle: number
+      node: string
+    }
+  | {
+      /** The distinct comparator of the node has suppressed the value. */
+      type: 'distinctSuppressed'
+      cycle: number
+      node: string
+      /** The name of the comparator function, `defaultComparator` for the default one. */
+      comparator: string
+      value: unknown
+    }
+  | {
+      /** A subscription of the node was called. Subscriptions are called after the cycle has committed the new cell values. */
+      type: 'subscription'
+      cycle: number
+      node: string
+      /** The name of the subscription function, `anonymous` if it has none. */
+      subscription: string
+    }
+  | {
+      /** A connection map function or a subscription of the node has thrown an error, caught by the error policy of the realm. */
+      type: 'error'
+      cycle: number
+      node: string
+      source: 'projection' | 'subscription'
+    }
+  | {
+      /** The cycle has finished. */
+      type: 'cycleEnd'
+      cycle: number
+    }
+
+/**
+ * A function that receives the trace events of a realm. Pass it to the `tracer` realm option, or through {@link Realm.setTracer}.
+ * @category Tracing
+ */
+export type RealmTracer = (event: TraceEvent) => void
+
+/**
+ * Collects the trace events of a realm.
+ * @category Tracing
+ */
+export interface TraceRecorder {
+  /**
+   * The tracer to pass to the realm.
+   */
+  tracer: RealmTracer
+  /**
+   * The recorded events.
+   */
+  events: TraceEvent[]
+  /**
+   * Removes the recorded events.
+   */
+  clear(): void
+  /**
+   * Returns the recorded events as a JSON string, suitable for attaching to bug reports. Values that can't be serialized are replaced with their string representation.
+   */
+  serialize(): string
+}
+
+/**
+ * Creates a recorder that collects the trace events of a realm.
+ * @example
+ * ```ts
+ * const recorder = createTraceRecorder()
+ * const r = new Realm({}, { tracer: recorder.tracer })
+ * r.pub(foo$, 'bar')
+ * console.log(recorder.serialize())
+ * ```
+ * @category Tracing
+ */
+export function createTraceRecorder(): TraceRecorder {
+  const events: TraceEvent[] = []
+  return {
+    tracer: (event) => {
+      events.push(event)
+    },
+    events,
+    clear() {
+      events.length = 0
+    },
+    serialize() {
+      return JSON.stringify(events, (_, value: unknown) => {
+        if (typeof value === 'function' || typeof value === 'symbol' || typeof value === 'bigint') {
+          return String(value)
+        }
+        return value
+      })
+    },
+  }
+}
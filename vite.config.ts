@@ -8,18 +8,21 @@ import dts from 'vite-plugin-dts'
 export default defineConfig({
   plugins: [
     react(),
+    // not rolled up, so that the index and testing entries share the declarations of the realm.
     dts({
-      rollupTypes: true,
       staticImport: true,
+      exclude: ['src/test', 'src/**/*.stories.tsx'],
       compilerOptions: { skipLibCheck: true },
     }),
   ],
   build: {
     lib: {
-      entry: resolve(__dirname, 'src/index.ts'),
+      entry: {
+        index: resolve(__dirname, 'src/index.ts'),
+        testing: resolve(__dirname, 'src/testing.ts'),
+      },
       formats: ['es'],
       name: 'Gurx',
-      fileName: 'index',
     },
     rollupOptions: {
       external: ['react', 'react/jsx-runtime', 'react/jsx-dev-runtime'],